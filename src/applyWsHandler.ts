@@ -1,4 +1,9 @@
-import type { CompressOptions, TemplatedApp, WebSocket } from 'uWebSockets.js';
+import type {
+  CompressOptions,
+  HttpResponse,
+  TemplatedApp,
+  WebSocket,
+} from 'uWebSockets.js';
 
 import {
   ProcedureType,
@@ -12,7 +17,11 @@ import {
 } from '@trpc/server';
 import { NodeHTTPCreateContextOption } from '@trpc/server/adapters/node-http';
 import type { BaseHandlerOptions } from '@trpc/server/src/internals/types';
-import { Unsubscribable, isObservable } from '@trpc/server/observable';
+import {
+  Unsubscribable,
+  isObservable,
+  observable,
+} from '@trpc/server/observable';
 import {
   TRPCClientOutgoingMessage,
   TRPCResponseMessage,
@@ -22,8 +31,34 @@ import {
 
 // import { transformTRPCResponse } from '../shared/transformTRPCResponse';
 import { getErrorShape, transformTRPCResponse } from '@trpc/server/shared';
-import { WrappedHTTPRequest } from './types';
-import { extractAndWrapHttpRequest } from './utils';
+import { getHTTPStatusCodeFromError } from '@trpc/server/http';
+import {
+  ConnectionParams,
+  CreateContextOptions,
+  Middleware,
+  WrappedHTTPRequest,
+} from './types';
+import {
+  createInFlightTracker,
+  extractAndWrapHttpRequest,
+  runMiddleware,
+  waitUntil,
+} from './utils';
+import { getSubscriptionTopic } from './topics';
+import { runWithCallSignal } from './callSignal';
+import { parseCidrs } from './clientIp';
+import { CorsOptions, isOriginAllowed } from './cors';
+import { getPathLabel, MetricsRegistry } from './metrics';
+import { jsonCodec, negotiateCodec, WSCodec } from './codec';
+import {
+  createMemoryReplayStore,
+  getLastEventId,
+  getReplayKey,
+  getTopicReplayKey,
+  isTrackedEvent,
+  ReplayStore,
+  TrackedEvent,
+} from './replay';
 
 /* istanbul ignore next -- @preserve */
 function assertIsObject(obj: unknown): asserts obj is Record<string, unknown> {
@@ -64,6 +99,16 @@ function assertIsJSONRPC2OrUndefined(
     throw new Error('Must be JSONRPC 2.0');
   }
 }
+function parseConnectionParams(obj: unknown): ConnectionParams {
+  if (obj === null || obj === undefined) return null;
+  assertIsObject(obj);
+  for (const [key, value] of Object.entries(obj)) {
+    if (typeof value !== 'string') {
+      throw new Error(`connectionParams.${key} must be a string`);
+    }
+  }
+  return obj as Record<string, string>;
+}
 function parseMessage(
   obj: unknown,
   transformer: CombinedDataTransformer
@@ -115,6 +160,60 @@ type UWSBuiltInOpts = {
   sendPingsAutomatically?: boolean;
 };
 
+/**
+ * Close code of connections that did not answer a keep-alive ping in time
+ */
+export const KEEP_ALIVE_CLOSE_CODE = 4408;
+
+/**
+ * Kept for the lifetime of a connection and passed to every hook
+ */
+export type WSConnectionInfo = {
+  req: WrappedHTTPRequest;
+  connectedAt: number;
+  /** Free for hooks to keep values in, e.g. a tracing span */
+  state: Record<string, unknown>;
+};
+
+export type WSSubscriptionEndReason = 'stop' | 'complete' | 'error' | 'close';
+
+export type WSHooks = {
+  onConnect?: (opts: { connection: WSConnectionInfo }) => void;
+  onDisconnect?: (opts: {
+    connection: WSConnectionInfo;
+    code: number;
+    durationMs: number;
+  }) => void;
+  onSubscriptionStart?: (opts: {
+    connection: WSConnectionInfo;
+    id: number | string;
+    path: string;
+  }) => void;
+  /**
+   * Called once per started subscription. `close` covers the connection
+   * closing and the server shutting down.
+   */
+  onSubscriptionEnd?: (opts: {
+    connection: WSConnectionInfo;
+    id: number | string;
+    path: string;
+    reason: WSSubscriptionEndReason;
+    durationMs: number;
+  }) => void;
+  /**
+   * Called for every query, mutation and subscription request once it is
+   * answered, subscriptions once they are started
+   */
+  onCall?: (opts: {
+    connection: WSConnectionInfo;
+    id: number | string;
+    path: string;
+    type: ProcedureType;
+    durationMs: number;
+    error: TRPCError | undefined;
+  }) => void;
+};
+
 /**
  * Web socket server handler
  */
@@ -123,15 +222,133 @@ export type WSSHandlerOptions<TRouter extends AnyRouter> = BaseHandlerOptions<
   WrappedHTTPRequest
 > &
   NodeHTTPCreateContextOption<TRouter, WrappedHTTPRequest, any> &
-  UWSBuiltInOpts;
+  UWSBuiltInOpts &
+  WSHooks & {
+    /**
+     * Proxies (CIDRs or plain addresses) whose forwarding headers are used
+     * to resolve `req.clientIp`
+     */
+    trustedProxies?: string[];
+    /** Upgrades from origins this policy does not allow are refused with 403 */
+    cors?: CorsOptions;
+    /**
+     * Message codecs offered as subprotocols, the first one a client asks for
+     * in `Sec-WebSocket-Protocol` is used. Others get JSON.
+     */
+    codecs?: WSCodec[];
+    /**
+     * Keeps events tagged with `tracked` so clients can resume subscriptions
+     * with `lastEventId`. `true` keeps them in memory.
+     */
+    resumable?:
+      | boolean
+      | {
+          /** Defaults to `createMemoryReplayStore()` */
+          store?: ReplayStore;
+          /**
+           * Names the subscriber, e.g. `({ ctx }) => ctx.user?.id`. Only
+           * subscribers with the same key share events, path and input are
+           * added to it. Subscriptions it returns undefined for are not kept.
+           * Without it only topic subscriptions are resumable.
+           */
+          getKey?: (opts: {
+            ctx: inferRouterContext<TRouter>;
+            path: string;
+            input: unknown;
+          }) => string | undefined;
+        };
+    /** Records connections, subscriptions and messages */
+    metrics?: MetricsRegistry;
+    /**
+     * Runs in order before each upgrade, before `onUpgrade`. Errors refuse
+     * the upgrade like `onUpgrade` does.
+     */
+    middleware?: Middleware | Middleware[];
+    /**
+     * Runs before the connection is upgraded. Throwing refuses the upgrade
+     * with the HTTP status of the error, e.g. `UNAUTHORIZED` answers 401.
+     */
+    onUpgrade?: (opts: { req: WrappedHTTPRequest }) => MaybePromise<void>;
+    /**
+     * Sends `PING` frames to connections that were quiet for `pingMs`, and
+     * closes them with `KEEP_ALIVE_CLOSE_CODE` when no message follows within
+     * `pongWaitMs`. `PING` frames from clients are always answered.
+     */
+    keepAlive?: {
+      enabled: boolean;
+      /** Defaults to 30000 */
+      pingMs?: number;
+      /** Defaults to 5000 */
+      pongWaitMs?: number;
+    };
+    /**
+     * Milliseconds a client that connected with `?connectionParams=1` has to
+     * send its params before the connection is closed. Defaults to 10000.
+     */
+    connectionParamsTimeout?: number;
+    /**
+     * Array messages with more calls are answered with a `BAD_REQUEST` error
+     * per call, none of them runs
+     */
+    maxBatchSize?: number;
+    /** Per connection limits, going over one answers `TOO_MANY_REQUESTS` */
+    limits?: {
+      /** Subscriptions open at the same time */
+      maxSubscriptions?: number;
+      /** Queries and mutations running at the same time */
+      maxInFlightCalls?: number;
+      /** Token bucket holding up to `burst` calls, refilled by `perSecond` */
+      messageRate?: { burst: number; perSecond: number };
+      /**
+       * `'reject'` answers the offending call with an error (default),
+       * `'close'` closes the connection with code 1008
+       */
+      policy?: 'reject' | 'close';
+    };
+  };
 
 type Decoration = {
   clientSubscriptions: Map<number | string, Unsubscribable>;
+  /** Aborted when the socket closes */
+  abortController: AbortController;
   ctxPromise: MaybePromise<inferRouterContext<AnyRouter>> | undefined;
   ctx: inferRouterContext<AnyRouter> | undefined;
   req: WrappedHTTPRequest;
+  connection: WSConnectionInfo;
+  codec: WSCodec;
+  inFlightCalls: number;
+  /** Subscriptions past the limit check that are not in `clientSubscriptions` yet */
+  pendingSubscriptions: number;
+  rateBucket: { tokens: number; refilledAt: number };
+  keepAliveTimer: ReturnType<typeof setTimeout> | undefined;
+  /** Set until the connectionParams message settles the context */
+  pendingConnectionParams:
+    | {
+        resolve: (params: ConnectionParams) => void;
+        reject: (cause: unknown) => void;
+        timer?: ReturnType<typeof setTimeout>;
+      }
+    | undefined;
 };
 
+/**
+ * Signal of a single call, aborted by `abort` or when the connection closes.
+ * `dispose` detaches it from the connection once the call is done.
+ * Procedures read it with `getCallSignal`.
+ */
+function createCallSignal(connectionSignal: AbortSignal) {
+  const controller = new AbortController();
+  const abort = () => controller.abort();
+  connectionSignal.addEventListener('abort', abort);
+  return {
+    signal: controller.signal,
+    abort,
+    dispose() {
+      connectionSignal.removeEventListener('abort', abort);
+    },
+  };
+}
+
 export function applyWSHandler<TRouter extends AnyRouter>(
   app: TemplatedApp,
   prefix: string,
@@ -141,12 +358,27 @@ export function applyWSHandler<TRouter extends AnyRouter>(
 
   const { transformer } = router._def._config;
 
+  const trustedProxies = parseCidrs(opts.trustedProxies);
+
   // instead of putting data on the client, can put it here in a global map
   // const globals = new Map<WebSocket<any>, Decoration>();
 
   // doing above can eliminate allClients for reconnection notification
   const allClients = new Set<WebSocket<Decoration>>();
 
+  const replayStore = !opts.resumable
+    ? undefined
+    : (opts.resumable !== true && opts.resumable.store) ||
+      createMemoryReplayStore();
+  const getSubscriberKey =
+    typeof opts.resumable === 'object' ? opts.resumable.getKey : undefined;
+  opts.metrics?.trackConnections(() => allClients.size);
+
+  // graceful shutdown state
+  let draining = false;
+  const inFlight = createInFlightTracker();
+  const allClosedWaiters: (() => void)[] = [];
+
   function respond(
     client: WebSocket<Decoration>,
     untransformedJSON: TRPCResponseMessage
@@ -157,13 +389,94 @@ export function applyWSHandler<TRouter extends AnyRouter>(
       // if we try to send a message to it
       return;
     }
-    client.send(
-      JSON.stringify(
+    const { codec } = client.getUserData();
+    send(
+      client,
+      codec.encode(
         transformTRPCResponse(router._def._config, untransformedJSON)
-      )
+      ),
+      codec.binary
     );
   }
 
+  function send(
+    client: WebSocket<Decoration>,
+    message: string | Uint8Array,
+    isBinary = false
+  ) {
+    const result = client.send(message, isBinary);
+    opts.metrics?.messageSent(result);
+  }
+
+  // uWs topic names include the codec and the response envelope, since every
+  // client has its own request id. Clients sharing both share a uWs topic, so
+  // publish sends one message per distinct pair rather than one per client.
+  const topicEnvelopes = new Map<
+    string,
+    Map<
+      string,
+      {
+        codec: WSCodec;
+        envelope: JSONRPC2.BaseEnvelope & { id: JSONRPC2.RequestId };
+        count: number;
+      }
+    >
+  >();
+
+  /**
+   * Subscribes the client to the uWs topic for as long as the returned
+   * observable is subscribed. Events arrive through `publish`.
+   */
+  function bindToTopic(
+    client: WebSocket<Decoration>,
+    topic: string,
+    { id, jsonrpc }: JSONRPC2.BaseEnvelope & { id: JSONRPC2.RequestId }
+  ) {
+    return observable<unknown>(() => {
+      const { codec } = client.getUserData();
+      const key = codec.protocol + '\0' + JSON.stringify({ id, jsonrpc });
+      const uWsTopic = topic + '\0' + key;
+
+      let envelopes = topicEnvelopes.get(topic);
+      if (!envelopes) {
+        envelopes = new Map();
+        topicEnvelopes.set(topic, envelopes);
+      }
+      const entry = envelopes.get(key) ?? {
+        codec,
+        envelope: { id, jsonrpc },
+        count: 0,
+      };
+      entry.count++;
+      envelopes.set(key, entry);
+      client.subscribe(uWsTopic);
+
+      return () => {
+        // uWs drops the topics of closed sockets by itself
+        if (allClients.has(client)) client.unsubscribe(uWsTopic);
+
+        if (--entry.count > 0) return;
+        envelopes!.delete(key);
+        if (!envelopes!.size) topicEnvelopes.delete(topic);
+      };
+    });
+  }
+
+  function remember(key: string, event: TrackedEvent) {
+    // a failing store only costs the replay
+    void Promise.resolve()
+      .then(() => replayStore!.append(key, event))
+      .catch(() => undefined);
+  }
+
+  async function readMissed(key: string, lastEventId: string) {
+    try {
+      return await replayStore!.since(key, lastEventId);
+    } catch {
+      return [];
+    }
+  }
+
   function stopSubscription(
     client: WebSocket<Decoration>,
     subscription: Unsubscribable,
@@ -180,6 +493,147 @@ export function applyWSHandler<TRouter extends AnyRouter>(
     });
   }
 
+  /**
+   * Restarts the keep-alive countdown, any message proves the client alive
+   */
+  function scheduleKeepAlive(client: WebSocket<Decoration>) {
+    const keepAlive = opts.keepAlive;
+    if (!keepAlive?.enabled) return;
+
+    const data = client.getUserData();
+    clearTimeout(data.keepAliveTimer);
+    data.keepAliveTimer = setTimeout(() => {
+      send(client, 'PING');
+      data.keepAliveTimer = setTimeout(() => {
+        client.end(KEEP_ALIVE_CLOSE_CODE, 'Keep-alive timeout');
+      }, keepAlive.pongWaitMs ?? 5000);
+    }, keepAlive.pingMs ?? 30000);
+  }
+
+  function checkLimits(data: Decoration, type: ProcedureType) {
+    const limits = opts.limits;
+    if (!limits) return undefined;
+
+    if (limits.messageRate) {
+      const { burst, perSecond } = limits.messageRate;
+      const bucket = data.rateBucket;
+      const now = Date.now();
+      bucket.tokens = Math.min(
+        burst,
+        bucket.tokens + ((now - bucket.refilledAt) * perSecond) / 1000
+      );
+      bucket.refilledAt = now;
+      if (bucket.tokens < 1) {
+        return 'Message rate limit exceeded';
+      }
+      bucket.tokens -= 1;
+    }
+    if (
+      type === 'subscription' &&
+      limits.maxSubscriptions !== undefined &&
+      data.clientSubscriptions.size + data.pendingSubscriptions >=
+        limits.maxSubscriptions
+    ) {
+      return `Too many subscriptions, at most ${limits.maxSubscriptions} are allowed`;
+    }
+    if (
+      type !== 'subscription' &&
+      limits.maxInFlightCalls !== undefined &&
+      data.inFlightCalls >= limits.maxInFlightCalls
+    ) {
+      return `Too many calls in flight, at most ${limits.maxInFlightCalls} are allowed`;
+    }
+    return undefined;
+  }
+
+  function rejectOverLimit(
+    client: WebSocket<Decoration>,
+    message: string,
+    {
+      id,
+      jsonrpc,
+      path,
+      type,
+      input,
+    }: JSONRPC2.BaseEnvelope & {
+      id: number | string;
+      path: string;
+      type: ProcedureType;
+      input: unknown;
+    }
+  ) {
+    const data = client.getUserData();
+    const error = new TRPCError({ code: 'TOO_MANY_REQUESTS', message });
+    opts.onCall?.({
+      connection: data.connection,
+      id,
+      path,
+      type,
+      durationMs: 0,
+      error,
+    });
+    opts.onError?.({
+      error,
+      path,
+      type,
+      ctx: data.ctx,
+      req: data.req,
+      input,
+    });
+
+    if (opts.limits?.policy === 'close') {
+      client.end(1008, message);
+      return;
+    }
+    respond(client, {
+      id,
+      jsonrpc,
+      error: getErrorShape({
+        config: router._def._config,
+        error,
+        type,
+        path,
+        input,
+        ctx: data.ctx,
+      }),
+    });
+  }
+
+  function rejectBatch(
+    client: WebSocket<Decoration>,
+    msgs: TRPCClientOutgoingMessage[]
+  ) {
+    const data = client.getUserData();
+    const error = new TRPCError({
+      code: 'BAD_REQUEST',
+      message: `Batch of ${msgs.length} calls exceeds the limit of ${opts.maxBatchSize}`,
+    });
+    opts.onError?.({
+      error,
+      path: undefined,
+      type: 'unknown',
+      ctx: data.ctx,
+      req: data.req,
+      input: undefined,
+    });
+
+    for (const msg of msgs) {
+      const isCall = msg.method !== 'subscription.stop';
+      respond(client, {
+        id: msg.id,
+        jsonrpc: msg.jsonrpc,
+        error: getErrorShape({
+          config: router._def._config,
+          error,
+          type: isCall ? msg.method : 'unknown',
+          path: isCall ? msg.params.path : undefined,
+          input: isCall ? msg.params.input : undefined,
+          ctx: data.ctx,
+        }),
+      });
+    }
+  }
+
   async function handleRequest(
     client: WebSocket<Decoration>,
     msg: TRPCClientOutgoingMessage
@@ -206,16 +660,77 @@ export function applyWSHandler<TRouter extends AnyRouter>(
     }
     const { path, input } = msg.params;
     const type = msg.method;
-    try {
-      await data.ctxPromise; // asserts context has been set
 
-      const result = await callProcedure({
-        procedures: router._def.procedures,
+    if (draining) {
+      // tRPC 10 has no code for it, the status tells clients to retry
+      const error = new TRPCError({
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Server is shutting down',
+      });
+      const shape = getErrorShape({
+        config: router._def._config,
+        error,
+        type,
         path,
-        rawInput: input,
+        input,
         ctx: data.ctx,
-        type,
       });
+      const shapeData = shape.data as { httpStatus?: number } | undefined;
+      if (shapeData?.httpStatus !== undefined) shapeData.httpStatus = 503;
+      respond(client, { id, jsonrpc, error: shape });
+      return;
+    }
+
+    const limitError = checkLimits(data, type);
+    if (limitError) {
+      rejectOverLimit(client, limitError, { id, jsonrpc, path, type, input });
+      return;
+    }
+
+    const isCall = type !== 'subscription';
+    if (isCall) data.inFlightCalls++;
+    // the slot is taken now, batched subscriptions are all checked first
+    let reserved = !isCall;
+    if (reserved) data.pendingSubscriptions++;
+    const releaseReservation = () => {
+      if (!reserved) return;
+      reserved = false;
+      data.pendingSubscriptions--;
+    };
+    const call = createCallSignal(data.abortController.signal);
+    const startedAt = Date.now();
+    let subscribed = false;
+    let callError: TRPCError | undefined;
+    // set once the connection context is created
+    let ctx = data.ctx;
+
+    let subscriptionEnded = false;
+    const endSubscription = (reason: WSSubscriptionEndReason) => {
+      if (subscriptionEnded) return;
+      subscriptionEnded = true;
+      opts.metrics?.subscriptionEnded(getPathLabel(router, path));
+      opts.onSubscriptionEnd?.({
+        connection: data.connection,
+        id,
+        path,
+        reason,
+        durationMs: Date.now() - startedAt,
+      });
+    };
+
+    try {
+      await data.ctxPromise; // asserts context has been set
+      ctx = data.ctx;
+
+      const result = await runWithCallSignal(call.signal, () =>
+        callProcedure({
+          procedures: router._def.procedures,
+          path,
+          rawInput: input,
+          ctx,
+          type,
+        })
+      );
 
       if (type === 'subscription') {
         if (!isObservable(result)) {
@@ -237,51 +752,120 @@ export function applyWSHandler<TRouter extends AnyRouter>(
         return;
       }
 
-      const observable = result;
-      const sub = observable.subscribe({
-        next(data) {
-          respond(client, {
-            id,
-            jsonrpc,
-            result: {
-              type: 'data',
-              data,
-            },
-          });
-        },
-        error(err) {
-          const error = getTRPCErrorFromUnknown(err);
-          opts.onError?.({
-            error,
-            path,
-            type,
-            ctx: data.ctx,
-            req: data.req,
-            input,
-          });
-          respond(client, {
-            id,
-            jsonrpc,
-            error: getErrorShape({
-              config: router._def._config,
-              error,
-              type,
-              path,
-              input,
-              ctx: data.ctx,
-            }),
-          });
+      const topic = getSubscriptionTopic(result);
+      const observable =
+        topic !== undefined
+          ? bindToTopic(client, topic, { id, jsonrpc })
+          : result;
+
+      const subscriberKey =
+        topic === undefined
+          ? getSubscriberKey?.({ ctx, path, input })
+          : undefined;
+      const replayKey = !replayStore
+        ? undefined
+        : topic !== undefined
+        ? getTopicReplayKey(topic)
+        : subscriberKey !== undefined
+        ? getReplayKey(path, input, subscriberKey)
+        : undefined;
+      const lastEventId = replayKey ? getLastEventId(input) : undefined;
+      // live events wait until the missed ones are sent, topic
+      // subscriptions are bound to their topic only then
+      let held: (() => void)[] | undefined =
+        lastEventId !== undefined ? [] : undefined;
+      let replayedIds: Set<string> | undefined;
+      const deliver = (send: () => void) => {
+        if (held) held.push(send);
+        else send();
+      };
+      const sendData = (value: unknown) => {
+        if (isTrackedEvent(value) && replayedIds?.has(value.id)) return;
+        respond(client, {
+          id,
+          jsonrpc,
+          result: {
+            type: 'data',
+            data: value,
+          },
+        });
+      };
+
+      opts.metrics?.subscriptionStarted(getPathLabel(router, path));
+      opts.onSubscriptionStart?.({ connection: data.connection, id, path });
+      let liveSub: Unsubscribable | undefined;
+      const entry: Unsubscribable = {
+        unsubscribe() {
+          endSubscription(
+            draining || data.abortController.signal.aborted ? 'close' : 'stop'
+          );
+          liveSub?.unsubscribe();
+          call.abort();
+          call.dispose();
         },
-        complete() {
-          respond(client, {
-            id,
-            jsonrpc,
-            result: {
-              type: 'stopped',
+      };
+      // finished subscriptions no longer count toward `maxSubscriptions`
+      const forget = () => {
+        if (clientSubscriptions.get(id) === entry) {
+          clientSubscriptions.delete(id);
+        }
+        call.dispose();
+      };
+      const subscribeLive = () => {
+        liveSub = runWithCallSignal(call.signal, () =>
+          observable.subscribe({
+            next(value) {
+              if (replayKey && isTrackedEvent(value))
+                remember(replayKey, value);
+              deliver(() => sendData(value));
             },
-          });
-        },
-      });
+            error(err) {
+              const error = getTRPCErrorFromUnknown(err);
+              endSubscription('error');
+              forget();
+              opts.onError?.({
+                error,
+                path,
+                type,
+                ctx,
+                req: data.req,
+                input,
+              });
+              deliver(() =>
+                respond(client, {
+                  id,
+                  jsonrpc,
+                  error: getErrorShape({
+                    config: router._def._config,
+                    error,
+                    type,
+                    path,
+                    input,
+                    ctx,
+                  }),
+                })
+              );
+            },
+            complete() {
+              endSubscription('complete');
+              forget();
+              deliver(() =>
+                respond(client, {
+                  id,
+                  jsonrpc,
+                  result: {
+                    type: 'stopped',
+                  },
+                })
+              );
+            },
+          })
+        );
+      };
+      if (topic === undefined || lastEventId === undefined) subscribeLive();
+      const sub: Unsubscribable = {
+        unsubscribe: () => liveSub?.unsubscribe(),
+      };
       /* istanbul ignore next -- @preserve */
       // FIXME handle these edge cases
       //   if (client.readyState !== client.OPEN) {
@@ -295,12 +879,17 @@ export function applyWSHandler<TRouter extends AnyRouter>(
       if (clientSubscriptions.has(id)) {
         // duplicate request ids for client
         stopSubscription(client, sub, { id, jsonrpc });
+        endSubscription('error');
         throw new TRPCError({
           message: `Duplicate id ${id}`,
           code: 'BAD_REQUEST',
         });
       }
-      clientSubscriptions.set(id, sub);
+      releaseReservation();
+      clientSubscriptions.set(id, entry);
+      subscribed = true;
+      // completed while subscribing
+      if (subscriptionEnded) forget();
 
       respond(client, {
         id,
@@ -309,14 +898,28 @@ export function applyWSHandler<TRouter extends AnyRouter>(
           type: 'started',
         },
       });
+
+      if (lastEventId !== undefined) {
+        const missed = await readMissed(replayKey!, lastEventId);
+        // stopped or disconnected in the meantime
+        if (call.signal.aborted) return;
+
+        missed.forEach(sendData);
+        replayedIds = new Set(missed.map((event) => event.id));
+        const live = held!;
+        held = undefined;
+        if (topic !== undefined) subscribeLive();
+        live.forEach((send) => send());
+      }
     } catch (cause) /* istanbul ignore next -- @preserve */ {
       // procedure threw an error
       const error = getTRPCErrorFromUnknown(cause);
+      callError = error;
       opts.onError?.({
         error,
         path,
         type,
-        ctx: data.ctx,
+        ctx,
         req: data.req,
         input,
       });
@@ -329,12 +932,87 @@ export function applyWSHandler<TRouter extends AnyRouter>(
           type,
           path,
           input,
-          ctx: data.ctx,
+          ctx,
         }),
       });
+    } finally {
+      if (isCall) data.inFlightCalls--;
+      releaseReservation();
+      if (!subscribed) call.dispose();
+      const durationMs = Date.now() - startedAt;
+      opts.metrics?.recordCall(
+        'ws',
+        type,
+        getPathLabel(router, path),
+        durationMs
+      );
+      opts.onCall?.({
+        connection: data.connection,
+        id,
+        path,
+        type,
+        durationMs,
+        error: callError,
+      });
     }
   }
 
+  function receiveConnectionParams(
+    client: WebSocket<Decoration>,
+    pending: NonNullable<Decoration['pendingConnectionParams']>,
+    rawMsg: ArrayBuffer
+  ) {
+    const data = client.getUserData();
+    data.pendingConnectionParams = undefined;
+    clearTimeout(pending.timer);
+
+    try {
+      const msgJSON = data.codec.decode(Buffer.from(rawMsg));
+      assertIsObject(msgJSON);
+      if (msgJSON.method !== 'connectionParams') {
+        throw new Error('First message must be connectionParams');
+      }
+      pending.resolve(parseConnectionParams(msgJSON.data));
+    } catch (cause) {
+      // fails context creation, which reports the error and closes the socket
+      pending.reject(new TRPCError({ code: 'PARSE_ERROR', cause }));
+    }
+  }
+
+  function refuseUpgrade(
+    res: HttpResponse,
+    req: WrappedHTTPRequest,
+    error: TRPCError
+  ) {
+    opts.onError?.({
+      error,
+      path: undefined,
+      type: 'unknown',
+      ctx: undefined,
+      req,
+      input: undefined,
+    });
+
+    const body = JSON.stringify(
+      transformTRPCResponse(router._def._config, {
+        error: getErrorShape({
+          config: router._def._config,
+          error,
+          type: 'unknown',
+          path: undefined,
+          input: undefined,
+          ctx: undefined,
+        }),
+      })
+    );
+
+    res.cork(() => {
+      res.writeStatus(getHTTPStatusCodeFromError(error).toString());
+      res.writeHeader('Content-Type', 'application/json');
+      res.end(body);
+    });
+  }
+
   app.ws(prefix, {
     sendPingsAutomatically: opts.sendPingsAutomatically, // could this be enabled?
     closeOnBackpressureLimit: opts.closeOnBackpressureLimit,
@@ -344,32 +1022,152 @@ export function applyWSHandler<TRouter extends AnyRouter>(
     maxLifetime: opts.maxLifetime,
     idleTimeout: opts.idleTimeout,
 
-    upgrade: (res, req, context) => {
-      const wrappedReq = extractAndWrapHttpRequest(prefix, req);
+    upgrade: async (res, req, context) => {
+      // req is only valid until the first await
+      const wrappedReq = extractAndWrapHttpRequest(
+        prefix,
+        req,
+        res,
+        trustedProxies
+      );
+
+      if (draining) {
+        res.writeStatus('503 Service Unavailable');
+        res.end();
+        return;
+      }
+
+      const origin = wrappedReq.headers['origin'];
+      if (opts.cors && origin && !isOriginAllowed(opts.cors, origin)) {
+        res.writeStatus('403 Forbidden');
+        res.end();
+        return;
+      }
 
       const secWebSocketKey = wrappedReq.headers['sec-websocket-key'];
       const secWebSocketProtocol = wrappedReq.headers['sec-websocket-protocol'];
+      // JSON is always spoken, it is only named when the client asks for it
+      const codec = opts.codecs
+        ? negotiateCodec([...opts.codecs, jsonCodec], secWebSocketProtocol)
+        : undefined;
       const secWebSocketExtensions =
         wrappedReq.headers['sec-websocket-extensions'];
 
-      const data: Decoration = {
-        clientSubscriptions: new Map<number | string, Unsubscribable>(),
-        req: wrappedReq,
-        ctx: undefined,
-        ctxPromise: createContext?.({ req: wrappedReq, res }), // this cannot use RES!
+      // aborted requests are never upgraded, so one controller covers the
+      // upgrade and the connection
+      const abortController = new AbortController();
+      const signal = abortController.signal;
+      res.onAborted(() => {
+        abortController.abort();
+      });
+
+      const upgrade = async (middlewareError?: TRPCError) => {
+        if (middlewareError) {
+          refuseUpgrade(res, wrappedReq, middlewareError);
+          return;
+        }
+
+        if (opts.onUpgrade) {
+          try {
+            await opts.onUpgrade({ req: wrappedReq });
+          } catch (cause) {
+            if (signal.aborted) return;
+            refuseUpgrade(res, wrappedReq, getTRPCErrorFromUnknown(cause));
+            return;
+          }
+          if (signal.aborted) return;
+        }
+
+        const createContextWithParams = (
+          connectionParams: ConnectionParams
+        ) => {
+          const ctxOpts: CreateContextOptions = {
+            req: wrappedReq,
+            res, // this cannot use RES!
+            signal: abortController.signal,
+            info: { connectionParams },
+          };
+          return createContext?.(ctxOpts);
+        };
+
+        let pendingConnectionParams: Decoration['pendingConnectionParams'];
+        const ctxPromise =
+          wrappedReq.query.get('connectionParams') === '1'
+            ? new Promise<ConnectionParams>((resolve, reject) => {
+                pendingConnectionParams = { resolve, reject };
+              }).then(createContextWithParams)
+            : createContextWithParams(null);
+
+        const data: Decoration = {
+          clientSubscriptions: new Map<number | string, Unsubscribable>(),
+          abortController,
+          req: wrappedReq,
+          connection: { req: wrappedReq, connectedAt: 0, state: {} },
+          codec: codec ?? jsonCodec,
+          ctx: undefined,
+          ctxPromise,
+          pendingConnectionParams,
+          inFlightCalls: 0,
+          pendingSubscriptions: 0,
+          keepAliveTimer: undefined,
+          rateBucket: {
+            tokens: opts.limits?.messageRate?.burst ?? 0,
+            refilledAt: Date.now(),
+          },
+        };
+
+        res.cork(() => {
+          res.upgrade(
+            data,
+            /* Spell these correctly */
+            secWebSocketKey,
+            // only the chosen subprotocol is echoed back, none when no
+            // codec matched
+            codec ? codec.protocol : opts.codecs ? '' : secWebSocketProtocol,
+            secWebSocketExtensions,
+            context
+          );
+        });
       };
 
-      res.upgrade(
-        data,
-        /* Spell these correctly */
-        secWebSocketKey,
-        secWebSocketProtocol,
-        secWebSocketExtensions,
-        context
+      await runMiddleware(
+        opts.middleware,
+        wrappedReq,
+        res,
+        signal,
+        upgrade,
+        (error) => {
+          opts.onError?.({
+            error,
+            type: 'unknown',
+            path: undefined,
+            req: wrappedReq,
+            input: undefined,
+            ctx: undefined,
+          });
+        }
       );
     },
     async open(client: WebSocket<Decoration>) {
       allClients.add(client);
+
+      const { connection } = client.getUserData();
+      connection.connectedAt = Date.now();
+      opts.onConnect?.({ connection });
+      scheduleKeepAlive(client);
+
+      const pending = client.getUserData().pendingConnectionParams;
+      if (pending) {
+        pending.timer = setTimeout(() => {
+          pending.reject(
+            new TRPCError({
+              code: 'UNAUTHORIZED',
+              message: 'connectionParams were not received in time',
+            })
+          );
+        }, opts.connectionParamsTimeout ?? 10000);
+      }
+
       async function createContextAsync() {
         const data = client.getUserData();
 
@@ -414,19 +1212,42 @@ export function applyWSHandler<TRouter extends AnyRouter>(
       await createContextAsync();
     },
 
-    async message(client: WebSocket<Decoration>, rawMsg) {
-      try {
-        const stringMsg = Buffer.from(rawMsg).toString();
+    async message(client: WebSocket<Decoration>, rawMsg, isBinary: boolean) {
+      opts.metrics?.messageReceived();
+      scheduleKeepAlive(client);
 
-        // eslint-disable-next-line @typescript-eslint/no-base-to-string
-        const msgJSON: unknown = JSON.parse(stringMsg);
+      // keep-alive frames are plain text, not JSON
+      if (!isBinary && rawMsg.byteLength === 4) {
+        const text = Buffer.from(rawMsg).toString();
+        if (text === 'PING') {
+          send(client, 'PONG');
+          return;
+        }
+        if (text === 'PONG') return;
+      }
+
+      const pending = client.getUserData().pendingConnectionParams;
+      if (pending) {
+        // the first message carries connectionParams, calls wait on the context
+        receiveConnectionParams(client, pending, rawMsg);
+        return;
+      }
+
+      const done = inFlight.start();
+      try {
+        const msgJSON = client.getUserData().codec.decode(Buffer.from(rawMsg));
 
         const msgs: unknown[] = Array.isArray(msgJSON) ? msgJSON : [msgJSON];
-        const promises = msgs
-          .map((raw) => parseMessage(raw, transformer))
-          .map((value) => handleRequest(client, value));
+        const parsed = msgs.map((raw) => parseMessage(raw, transformer));
+        if (
+          opts.maxBatchSize !== undefined &&
+          parsed.length > opts.maxBatchSize
+        ) {
+          rejectBatch(client, parsed);
+          return;
+        }
 
-        await Promise.all(promises);
+        await Promise.all(parsed.map((value) => handleRequest(client, value)));
       } catch (cause) {
         const error = new TRPCError({
           code: 'PARSE_ERROR',
@@ -444,30 +1265,116 @@ export function applyWSHandler<TRouter extends AnyRouter>(
             ctx: undefined,
           }),
         });
+      } finally {
+        done();
       }
     },
 
-    close(client: WebSocket<Decoration>) {
+    close(client: WebSocket<Decoration>, code: number) {
       const data = client.getUserData();
 
+      // the socket can no longer be used from here on
+      allClients.delete(client);
+      clearTimeout(data.pendingConnectionParams?.timer);
+      clearTimeout(data.keepAliveTimer);
+
+      // aborted first, so the subscriptions end with the close reason
+      data.abortController.abort();
       for (const sub of data.clientSubscriptions.values()) {
         sub.unsubscribe();
       }
       data.clientSubscriptions.clear();
-      allClients.delete(client);
+
+      opts.onDisconnect?.({
+        connection: data.connection,
+        code,
+        durationMs: Date.now() - data.connection.connectedAt,
+      });
+
+      if (!allClients.size) {
+        allClosedWaiters.splice(0).forEach((resolve) => resolve());
+      }
     },
   });
 
+  function broadcastReconnectNotification() {
+    const response: TRPCReconnectNotification = {
+      id: null,
+      method: 'reconnect',
+    };
+    allClients.forEach((v) => {
+      const { codec } = v.getUserData();
+      send(v, codec.encode(response), codec.binary);
+    });
+  }
+
   return {
-    broadcastReconnectNotification: () => {
-      const response: TRPCReconnectNotification = {
-        id: null,
-        method: 'reconnect',
+    broadcastReconnectNotification,
+    get connectionCount() {
+      return allClients.size;
+    },
+    /**
+     * Refuses new upgrades, asks clients to reconnect elsewhere, waits for
+     * running calls, then unsubscribes everything. Sockets still open at the
+     * deadline are closed.
+     */
+    close: async ({ timeoutMs = 10000 }: { timeoutMs?: number } = {}) => {
+      const deadline = Date.now() + timeoutMs;
+      draining = true;
+
+      broadcastReconnectNotification();
+      await waitUntil(inFlight.idle(), deadline);
+
+      // no stopped message, clients resubscribe after reconnecting
+      for (const client of allClients) {
+        const { clientSubscriptions } = client.getUserData();
+        for (const sub of clientSubscriptions.values()) {
+          sub.unsubscribe();
+        }
+        clientSubscriptions.clear();
+      }
+
+      if (allClients.size) {
+        await waitUntil(
+          new Promise<void>((resolve) => allClosedWaiters.push(resolve)),
+          deadline
+        );
+      }
+      for (const client of allClients) {
+        client.end(1001, 'Server is shutting down');
+      }
+    },
+    /**
+     * Sends `data` to every client subscribed through `topicSubscription(topic)`
+     */
+    publish: (topic: string, data: unknown) => {
+      if (replayStore && isTrackedEvent(data)) {
+        remember(getTopicReplayKey(topic), data);
+      }
+      const envelopes = topicEnvelopes.get(topic);
+      if (!envelopes) return;
+
+      const result = {
+        type: 'data' as const,
+        data: router._def._config.transformer.output.serialize(data),
       };
-      const data = JSON.stringify(response);
-      allClients.forEach((v) => {
-        v.send(data);
-      });
+      // JSON is serialized once, only the envelope differs between messages
+      let json: string | undefined;
+      for (const [key, { codec, envelope, count }] of envelopes) {
+        let message: string | Uint8Array;
+        if (codec === jsonCodec) {
+          json ??= JSON.stringify(result);
+          message =
+            key.slice(codec.protocol.length + 1, -1) +
+            ',"result":' +
+            json +
+            '}';
+        } else {
+          message = codec.encode({ ...envelope, result });
+        }
+        app.publish(topic + '\0' + key, message, codec.binary);
+        opts.metrics?.messagePublished(count);
+      }
     },
   };
 }
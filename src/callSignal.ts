@@ -0,0 +1,17 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+const callSignals = new AsyncLocalStorage<AbortSignal>();
+
+/**
+ * Signal of the running call, for procedures and what they call. Over HTTP
+ * it is the one of the request, over WebSockets the one of the single call,
+ * aborted on `subscription.stop` or when the connection closes. Undefined
+ * outside of a call.
+ */
+export function getCallSignal(): AbortSignal | undefined {
+  return callSignals.getStore();
+}
+
+export function runWithCallSignal<T>(signal: AbortSignal, fn: () => T) {
+  return callSignals.run(signal, fn);
+}
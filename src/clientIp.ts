@@ -0,0 +1,181 @@
+export type Cidr = { bytes: number[]; prefix: number };
+
+function parseIPv4(text: string) {
+  const parts = text.split('.');
+  if (parts.length !== 4) return undefined;
+  const bytes = parts.map((part) => (/^\d{1,3}$/.test(part) ? +part : NaN));
+  return bytes.every((byte) => byte <= 255) ? bytes : undefined;
+}
+
+function parseIPv6(text: string) {
+  const halves = text.split('::');
+  if (halves.length > 2) return undefined;
+
+  const toGroups = (half: string) => {
+    if (!half) return [];
+    const groups = half.split(':');
+    const last = groups[groups.length - 1]!;
+    // trailing dotted quad, as in ::ffff:127.0.0.1
+    if (last.includes('.')) {
+      const v4 = parseIPv4(last);
+      if (!v4) return undefined;
+      groups.splice(-1, 1, ((v4[0]! << 8) | v4[1]!).toString(16));
+      groups.push(((v4[2]! << 8) | v4[3]!).toString(16));
+    }
+    return groups.every((group) => /^[0-9a-f]{1,4}$/i.test(group))
+      ? groups.map((group) => parseInt(group, 16))
+      : undefined;
+  };
+
+  const head = toGroups(halves[0]!);
+  const tail = halves.length === 2 ? toGroups(halves[1]!) : [];
+  if (!head || !tail) return undefined;
+
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 2 ? missing < 1 : missing !== 0) return undefined;
+
+  const groups = [...head, ...Array<number>(missing).fill(0), ...tail];
+  return groups.flatMap((group) => [group >> 8, group & 0xff]);
+}
+
+/**
+ * Parses an IP address into its bytes. IPv4-mapped IPv6 addresses are
+ * returned as IPv4, so both notations match the same CIDRs.
+ */
+export function parseIp(text: string): number[] | undefined {
+  if (!text.includes(':')) return parseIPv4(text);
+
+  const bytes = parseIPv6(text);
+  const isV4Mapped =
+    bytes?.slice(0, 10).every((byte) => byte === 0) &&
+    bytes[10] === 0xff &&
+    bytes[11] === 0xff;
+  return isV4Mapped ? bytes!.slice(12) : bytes;
+}
+
+export function formatIp(bytes: number[]) {
+  if (bytes.length === 4) return bytes.join('.');
+
+  const groups: number[] = [];
+  for (let i = 0; i < 16; i += 2) groups.push((bytes[i]! << 8) | bytes[i + 1]!);
+
+  // RFC 5952: compress the longest run of two or more zero groups
+  let bestStart = -1;
+  let bestLength = 1;
+  for (let i = 0; i < 8; ) {
+    let j = i;
+    while (j < 8 && groups[j] === 0) j++;
+    if (j - i > bestLength) {
+      bestStart = i;
+      bestLength = j - i;
+    }
+    i = j + 1;
+  }
+
+  const hex = groups.map((group) => group.toString(16));
+  if (bestStart === -1) return hex.join(':');
+  return (
+    hex.slice(0, bestStart).join(':') +
+    '::' +
+    hex.slice(bestStart + bestLength).join(':')
+  );
+}
+
+/**
+ * Parses CIDRs like `10.0.0.0/8` or `fd00::/8`, a plain address matches
+ * only itself. Throws on malformed entries.
+ */
+export function parseCidrs(list: string[] = []): Cidr[] {
+  return list.map((cidr) => {
+    const [address, prefix] = cidr.split('/');
+    const bytes = parseIp(address!);
+    const maxPrefix = (bytes?.length ?? 0) * 8;
+    const prefixLength = prefix === undefined ? maxPrefix : +prefix;
+    if (
+      !bytes ||
+      !Number.isInteger(prefixLength) ||
+      prefixLength < 0 ||
+      prefixLength > maxPrefix
+    ) {
+      throw new Error(`Invalid trusted proxy "${cidr}"`);
+    }
+    return { bytes, prefix: prefixLength };
+  });
+}
+
+function matchesCidr(bytes: number[], cidr: Cidr) {
+  if (bytes.length !== cidr.bytes.length) return false;
+  for (let bit = 0; bit < cidr.prefix; bit += 8) {
+    const mask = 0xff << (8 - Math.min(8, cidr.prefix - bit));
+    const i = bit / 8;
+    if ((bytes[i]! & mask) !== (cidr.bytes[i]! & mask)) return false;
+  }
+  return true;
+}
+
+/**
+ * Strips quotes, brackets and ports from a forwarded address
+ */
+function cleanForwardedAddress(value: string) {
+  let address = value.trim().replace(/^"|"$/g, '');
+  if (address.startsWith('[')) {
+    address = address.substring(1, address.indexOf(']'));
+  } else if (address.split(':').length === 2) {
+    // IPv4 with port
+    address = address.split(':')[0]!;
+  }
+  return address;
+}
+
+function getForwardedFor(headers: Record<string, string>) {
+  const forwarded = headers['forwarded'];
+  if (forwarded) {
+    return forwarded
+      .split(',')
+      .map((element) =>
+        element
+          .split(';')
+          .map((pair) => pair.trim())
+          .find((pair) => pair.toLowerCase().startsWith('for='))
+      )
+      .map((pair) => (pair ? cleanForwardedAddress(pair.substring(4)) : ''));
+  }
+  const xForwardedFor = headers['x-forwarded-for'];
+  return xForwardedFor
+    ? xForwardedFor.split(',').map(cleanForwardedAddress)
+    : [];
+}
+
+/**
+ * Walks the forwarding chain from the socket peer towards the client,
+ * stopping at the first address that is not a trusted proxy.
+ */
+export function resolveClientIp(
+  peerAddress: string,
+  headers: Record<string, string>,
+  trustedProxies: Cidr[]
+) {
+  const isTrusted = (address: string) => {
+    const bytes = parseIp(address);
+    return !!bytes && trustedProxies.some((cidr) => matchesCidr(bytes, cidr));
+  };
+  const normalize = (address: string) => {
+    const bytes = parseIp(address);
+    return bytes ? formatIp(bytes) : address;
+  };
+
+  if (!trustedProxies.length || !isTrusted(peerAddress)) {
+    return normalize(peerAddress);
+  }
+
+  const chain = getForwardedFor(headers);
+  let clientIp = peerAddress;
+  for (let i = chain.length - 1; i >= 0; i--) {
+    const address = chain[i]!;
+    // unknown or obfuscated identifiers end the chain
+    if (!parseIp(address)) break;
+    clientIp = address;
+    if (!isTrusted(address)) break;
+  }
+  return normalize(clientIp);
+}
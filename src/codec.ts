@@ -0,0 +1,38 @@
+/**
+ * Encodes WebSocket messages. Codecs work on the output of the tRPC
+ * transformer, so both can be combined.
+ */
+export type WSCodec = {
+  /** Subprotocol clients ask for in `Sec-WebSocket-Protocol` */
+  protocol: string;
+  /** Sends encoded messages as binary frames */
+  binary: boolean;
+  encode(message: unknown): string | Uint8Array;
+  decode(data: Uint8Array): unknown;
+};
+
+export const jsonCodec: WSCodec = {
+  protocol: 'json',
+  binary: false,
+  encode: (message) => JSON.stringify(message),
+  decode: (data) =>
+    JSON.parse(
+      Buffer.from(data.buffer, data.byteOffset, data.byteLength).toString()
+    ) as unknown,
+};
+
+/**
+ * Picks the first subprotocol the client asks for that has a codec.
+ * Returns undefined when none matches.
+ */
+export function negotiateCodec(
+  codecs: WSCodec[],
+  secWebSocketProtocol: string | undefined
+) {
+  if (!secWebSocketProtocol) return undefined;
+  for (const protocol of secWebSocketProtocol.split(',')) {
+    const codec = codecs.find((codec) => codec.protocol === protocol.trim());
+    if (codec) return codec;
+  }
+  return undefined;
+}
@@ -0,0 +1,204 @@
+import zlib from 'zlib';
+import { createHash } from 'crypto';
+import { promisify } from 'util';
+import type { HTTPHeaders } from '@trpc/server/src/http/internals/types';
+import type { createResponseWriter } from './responseWriter';
+
+export type CompressionEncoding = 'br' | 'gzip' | 'deflate';
+
+export type CompressionCache = {
+  get(key: string): Buffer | undefined;
+  set(key: string, value: Buffer): void;
+};
+
+export type CompressionOptions = {
+  /**
+   * Server preference when the client accepts several. Defaults to br,
+   * gzip and deflate.
+   */
+  encodings?: CompressionEncoding[];
+  /** Bodies smaller than this many bytes are sent as is, defaults to 1024 */
+  threshold?: number;
+  /**
+   * Content type prefixes that are never compressed. Defaults to images,
+   * audio and video.
+   */
+  exclude?: string[];
+  /** Reuses compressed output of identical bodies, see `createCompressionCache` */
+  cache?: CompressionCache;
+};
+
+const DEFAULT_ENCODINGS: CompressionEncoding[] = ['br', 'gzip', 'deflate'];
+const DEFAULT_EXCLUDE = ['image/', 'audio/', 'video/'];
+
+// the default brotli quality of 11 is far too slow for dynamic responses
+const brotliOptions = {
+  params: { [zlib.constants.BROTLI_PARAM_QUALITY]: 4 },
+};
+
+const brotliCompress = promisify(zlib.brotliCompress);
+const compressors = {
+  br: (data: Buffer) => brotliCompress(data, brotliOptions),
+  gzip: promisify(zlib.gzip),
+  deflate: promisify(zlib.deflate),
+};
+
+/**
+ * Picks the encoding with the highest q value the client accepts, ties go
+ * to the order of `encodings`
+ */
+export function negotiateEncoding(
+  acceptEncoding: string | undefined,
+  encodings: CompressionEncoding[] = DEFAULT_ENCODINGS
+) {
+  if (!acceptEncoding) return undefined;
+
+  const weights = new Map<string, number>();
+  for (const part of acceptEncoding.toLowerCase().split(',')) {
+    const [name, ...params] = part.split(';').map((value) => value.trim());
+    if (!name) continue;
+    const q = params.find((param) => param.startsWith('q='));
+    weights.set(name, q ? Number(q.substring(2)) || 0 : 1);
+  }
+
+  let best: CompressionEncoding | undefined;
+  let bestWeight = 0;
+  for (const encoding of encodings) {
+    const weight = weights.get(encoding) ?? weights.get('*') ?? 0;
+    if (weight > bestWeight) {
+      best = encoding;
+      bestWeight = weight;
+    }
+  }
+  return best;
+}
+
+export function appendVary(headers: HTTPHeaders, value: string) {
+  const vary = headers['Vary'];
+  headers['Vary'] = vary ? vary + ', ' + value : value;
+}
+
+/**
+ * Adds `Vary: Accept-Encoding` to responses that may be compressed and
+ * returns the encoding to use. Excluded content types and responses that
+ * already have a `Content-Encoding` are left alone.
+ */
+export function selectEncoding(
+  options: CompressionOptions,
+  acceptEncoding: string | undefined,
+  headers: HTTPHeaders
+) {
+  if (headers['Content-Encoding'] || headers['content-encoding']) {
+    return undefined;
+  }
+
+  const contentType = String(
+    headers['Content-Type'] ?? headers['content-type'] ?? ''
+  ).toLowerCase();
+  const exclude = options.exclude ?? DEFAULT_EXCLUDE;
+  if (exclude.some((prefix) => contentType.startsWith(prefix.toLowerCase()))) {
+    return undefined;
+  }
+
+  appendVary(headers, 'Accept-Encoding');
+  return negotiateEncoding(acceptEncoding, options.encodings);
+}
+
+/**
+ * Compresses a complete body, returns undefined when it is below the
+ * threshold
+ */
+export async function compressBody(
+  options: CompressionOptions,
+  encoding: CompressionEncoding,
+  body: string | Uint8Array
+) {
+  const data =
+    typeof body === 'string'
+      ? Buffer.from(body)
+      : Buffer.from(body.buffer, body.byteOffset, body.byteLength);
+  if (data.byteLength < (options.threshold ?? 1024)) return undefined;
+
+  const key = options.cache
+    ? encoding + ':' + createHash('sha1').update(data).digest('base64')
+    : undefined;
+  const cached = key && options.cache!.get(key);
+  if (cached) return cached;
+
+  const compressed = await compressors[encoding](data);
+  if (key) options.cache!.set(key, compressed);
+  return compressed;
+}
+
+function createCompressStream(encoding: CompressionEncoding) {
+  if (encoding === 'br') return zlib.createBrotliCompress(brotliOptions);
+  if (encoding === 'gzip') return zlib.createGzip();
+  return zlib.createDeflate();
+}
+
+/**
+ * Compresses streamed chunks into `writer`, flushing after every chunk so
+ * each one reaches the client right away. `end` resolves once the
+ * compressed output is written.
+ */
+export function createCompressingWriter(
+  writer: ReturnType<typeof createResponseWriter>,
+  encoding: CompressionEncoding,
+  signal: AbortSignal
+) {
+  const stream = createCompressStream(encoding);
+  stream.on('data', (chunk: Buffer) => writer.write(chunk));
+
+  const finished = new Promise<void>((resolve) => {
+    stream.on('end', () => {
+      writer.end();
+      resolve();
+    });
+    stream.on('error', () => {
+      writer.end();
+      resolve();
+    });
+    stream.on('close', resolve);
+  });
+
+  signal.addEventListener('abort', () => stream.destroy());
+
+  return {
+    write(chunk: string) {
+      if (stream.destroyed) return;
+      stream.write(chunk);
+      stream.flush();
+    },
+    end(chunk?: string) {
+      if (!stream.destroyed) stream.end(chunk);
+      return finished;
+    },
+  };
+}
+
+/**
+ * In-memory cache for compressed bodies, dropping the least recently used
+ * entry once `maxEntries` is reached
+ */
+export function createCompressionCache({
+  maxEntries = 100,
+}: { maxEntries?: number } = {}): CompressionCache {
+  const entries = new Map<string, Buffer>();
+  return {
+    get(key) {
+      const value = entries.get(key);
+      if (value) {
+        entries.delete(key);
+        entries.set(key, value);
+      }
+      return value;
+    },
+    set(key, value) {
+      entries.delete(key);
+      entries.set(key, value);
+      if (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value!);
+      }
+    },
+  };
+}
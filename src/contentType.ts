@@ -0,0 +1,318 @@
+import { TRPCError, getTRPCErrorFromUnknown } from '@trpc/server';
+import type { BodyResult } from '@trpc/server/dist/http/contentType';
+import type { HTTPRequest } from '@trpc/server/src/http/types';
+import { createMultipartParser, getBoundary } from './multipart';
+import {
+  uHTTPContentTypeHandler,
+  uHTTPContentTypeHandlerOptions,
+  WrappedHTTPRequest,
+} from './types';
+import { getPostBody, getRawBody, readRequestBody } from './utils';
+
+export type FilePart = {
+  /** Form field name */
+  name: string;
+  filename: string;
+  contentType: string;
+  data: AsyncIterable<Uint8Array>;
+};
+
+/**
+ * Receives every uploaded file as it streams in, whatever it resolves to
+ * ends up in `files` of the procedure input
+ */
+export type FileSink<TFile> = (part: FilePart) => Promise<TFile>;
+
+export type UploadedFile<TFile> = {
+  name: string;
+  filename: string;
+  contentType: string;
+  file: TFile;
+};
+
+/**
+ * Procedure input produced by `multipartContentTypeHandler`
+ */
+export type MultipartFormData<TFile = Buffer> = {
+  fields: Record<string, string>;
+  files: UploadedFile<TFile>[];
+};
+
+function getContentType(req: WrappedHTTPRequest) {
+  return req.headers['content-type'] ?? '';
+}
+
+/**
+ * Bodies that are not JSON are handed to a single procedure as they are.
+ */
+function getSingleInput({
+  isBatchCall,
+  req,
+}: {
+  isBatchCall: boolean;
+  req: HTTPRequest;
+}) {
+  if (isBatchCall) {
+    throw new TRPCError({
+      code: 'BAD_REQUEST',
+      message: `Batching is not supported for ${req.headers['content-type']}`,
+    });
+  }
+  return {
+    0: req.body,
+  };
+}
+
+const jsonContentTypeHandler: uHTTPContentTypeHandler = {
+  isMatch({ req }) {
+    const contentType = getContentType(req);
+    return !contentType || contentType.startsWith('application/json');
+  },
+  getBody({ req, res, signal, maxBodySize }) {
+    return getPostBody(req, res, signal, maxBodySize);
+  },
+};
+
+export function getContentTypeHandler(
+  opts: uHTTPContentTypeHandlerOptions,
+  handlers: uHTTPContentTypeHandler[] = []
+) {
+  return [...handlers, jsonContentTypeHandler].find((handler) =>
+    handler.isMatch(opts)
+  );
+}
+
+/**
+ * Passes `application/octet-stream` bodies to the procedure as a `Buffer`
+ */
+export function octetStreamContentTypeHandler(): uHTTPContentTypeHandler {
+  return {
+    isMatch({ req }) {
+      return getContentType(req).startsWith('application/octet-stream');
+    },
+    async getBody({ req, res, signal, maxBodySize }) {
+      const result = await getRawBody(req, res, signal, maxBodySize);
+      if (!result.ok) return result;
+
+      return {
+        ok: true,
+        data: result.data,
+        preprocessed: true,
+      };
+    },
+    getInputs: getSingleInput,
+  };
+}
+
+/**
+ * Queue of file chunks read by the sink. `push` returns false once more than
+ * `highWaterMark` bytes wait, `onDrain` fires when the sink caught up again.
+ */
+function createChunkStream(highWaterMark: number, onDrain: () => void) {
+  const chunks: Uint8Array[] = [];
+  let queuedBytes = 0;
+  let full = false;
+  let done = false;
+  let discarded = false;
+  let error: unknown;
+  let wake: (() => void) | undefined;
+
+  function notify() {
+    wake?.();
+    wake = undefined;
+  }
+
+  return {
+    push(chunk: Uint8Array) {
+      if (discarded) return true;
+      chunks.push(chunk);
+      queuedBytes += chunk.byteLength;
+      notify();
+      full = queuedBytes > highWaterMark;
+      return !full;
+    },
+    end() {
+      done = true;
+      notify();
+    },
+    /** Drops what the sink did not read, it settled without reading on */
+    discard() {
+      discarded = true;
+      chunks.length = 0;
+      queuedBytes = 0;
+      if (full) {
+        full = false;
+        onDrain();
+      }
+    },
+    error(cause: unknown) {
+      error = cause;
+      notify();
+    },
+    async *[Symbol.asyncIterator]() {
+      for (;;) {
+        if (error) throw error;
+        if (chunks.length) {
+          const chunk = chunks.shift()!;
+          queuedBytes -= chunk.byteLength;
+          if (full && queuedBytes <= highWaterMark) {
+            full = false;
+            onDrain();
+          }
+          yield chunk;
+          continue;
+        }
+        if (done) return;
+        await new Promise<void>((resolve) => {
+          wake = resolve;
+        });
+      }
+    },
+  };
+}
+
+async function memoryFileSink({ data }: FilePart) {
+  const chunks: Uint8Array[] = [];
+  for await (const chunk of data) {
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Parses `multipart/form-data` into `MultipartFormData`. Text fields are
+ * collected in memory, files are streamed into `onFile`, which keeps them
+ * in memory as a `Buffer` by default. Reading the request pauses while
+ * `onFile` is `highWaterMark` bytes behind.
+ */
+export function multipartContentTypeHandler<TFile = Buffer>(
+  opts: {
+    onFile?: FileSink<TFile>;
+    /** Defaults to 1MB */
+    highWaterMark?: number;
+  } = {}
+): uHTTPContentTypeHandler {
+  const onFile: FileSink<unknown> = opts.onFile ?? memoryFileSink;
+  const highWaterMark = opts.highWaterMark ?? 1024 * 1024;
+
+  return {
+    isMatch({ req }) {
+      return getContentType(req).startsWith('multipart/form-data');
+    },
+    getBody({ req, res, signal, maxBodySize }) {
+      return new Promise<BodyResult>((resolve) => {
+        const boundary = getBoundary(getContentType(req));
+        if (!boundary) {
+          resolve({
+            ok: false,
+            error: new TRPCError({
+              code: 'BAD_REQUEST',
+              message: 'Missing multipart boundary',
+            }),
+          });
+          return;
+        }
+
+        const fields: Record<string, string> = {};
+        const files: Promise<UploadedFile<unknown>>[] = [];
+
+        let field: { name: string; chunks: Buffer[] } | undefined;
+        let stream: ReturnType<typeof createChunkStream> | undefined;
+        let received = 0;
+        let settled = false;
+        let paused = false;
+
+        function resume() {
+          if (!paused) return;
+          paused = false;
+          // an aborted response must not be touched
+          if (!signal.aborted) res.resume();
+        }
+
+        function fail(cause: unknown) {
+          if (settled) return;
+          settled = true;
+          resume();
+          stream?.error(cause);
+          resolve({ ok: false, error: getTRPCErrorFromUnknown(cause) });
+        }
+
+        const parser = createMultipartParser(boundary, {
+          onPart({ name, filename, contentType }) {
+            if (filename === undefined) {
+              field = { name, chunks: [] };
+              return;
+            }
+            const data = createChunkStream(highWaterMark, resume);
+            stream = data;
+            const file = onFile({ name, filename, contentType, data })
+              .finally(() => data.discard())
+              .then((file) => ({ name, filename, contentType, file }));
+            file.catch(fail);
+            files.push(file);
+          },
+          onData(chunk) {
+            if (field) field.chunks.push(chunk);
+            else if (stream && !stream.push(chunk) && !paused) {
+              // the sink is slower than the client
+              paused = true;
+              res.pause();
+            }
+          },
+          onPartEnd() {
+            if (field) {
+              fields[field.name] = Buffer.concat(field.chunks).toString();
+              field = undefined;
+            } else {
+              stream?.end();
+              stream = undefined;
+            }
+          },
+        });
+
+        const stop = readRequestBody(
+          req,
+          res,
+          (chunk, isLast) => {
+            if (settled) return;
+
+            // counts decompressed bytes
+            received += chunk.byteLength;
+            if (maxBodySize && received > maxBodySize) {
+              stop();
+              fail(new TRPCError({ code: 'PAYLOAD_TOO_LARGE' }));
+              return;
+            }
+
+            try {
+              // the parser hands out slices of what it is given
+              parser.write(Buffer.from(chunk));
+              if (isLast) parser.end();
+            } catch (cause) {
+              fail(new TRPCError({ code: 'BAD_REQUEST', cause }));
+              return;
+            }
+
+            if (isLast) {
+              Promise.all(files).then((files) => {
+                if (settled) return;
+                settled = true;
+                resolve({
+                  ok: true,
+                  data: { fields, files },
+                  preprocessed: true,
+                });
+              }, fail);
+            }
+          },
+          fail
+        );
+
+        signal.addEventListener('abort', () => {
+          fail(new TRPCError({ code: 'CLIENT_CLOSED_REQUEST' }));
+        });
+      });
+    },
+    getInputs: getSingleInput,
+  };
+}
@@ -0,0 +1,69 @@
+export type CookieOptions = {
+  domain?: string;
+  path?: string;
+  expires?: Date;
+  /** Seconds until the cookie expires */
+  maxAge?: number;
+  httpOnly?: boolean;
+  secure?: boolean;
+  sameSite?: 'strict' | 'lax' | 'none';
+  partitioned?: boolean;
+};
+
+function decode(value: string) {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Parses a `Cookie` request header, the first occurrence of a name wins
+ */
+export function parseCookies(header: string | undefined) {
+  const cookies: Record<string, string> = {};
+  if (!header) return cookies;
+
+  for (const pair of header.split(';')) {
+    const separator = pair.indexOf('=');
+    if (separator === -1) continue;
+
+    const name = pair.substring(0, separator).trim();
+    if (!name || name in cookies) continue;
+
+    let value = pair.substring(separator + 1).trim();
+    if (value.startsWith('"') && value.endsWith('"')) {
+      value = value.slice(1, -1);
+    }
+    cookies[name] = decode(value);
+  }
+  return cookies;
+}
+
+export function serializeCookie(
+  name: string,
+  value: string,
+  options: CookieOptions = {}
+) {
+  if (!/^[!#$%&'*+\-.^_`|~0-9A-Za-z]+$/.test(name)) {
+    throw new TypeError(`Invalid cookie name "${name}"`);
+  }
+
+  let cookie = `${name}=${encodeURIComponent(value)}`;
+  if (options.domain) cookie += `; Domain=${options.domain}`;
+  if (options.path) cookie += `; Path=${options.path}`;
+  if (options.expires) cookie += `; Expires=${options.expires.toUTCString()}`;
+  if (options.maxAge !== undefined) {
+    cookie += `; Max-Age=${Math.floor(options.maxAge)}`;
+  }
+  if (options.httpOnly) cookie += '; HttpOnly';
+  if (options.secure) cookie += '; Secure';
+  if (options.sameSite) {
+    cookie += `; SameSite=${
+      options.sameSite.charAt(0).toUpperCase() + options.sameSite.slice(1)
+    }`;
+  }
+  if (options.partitioned) cookie += '; Partitioned';
+  return cookie;
+}
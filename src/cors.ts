@@ -0,0 +1,94 @@
+import type { HttpResponse } from 'uWebSockets.js';
+import { WrappedHTTPRequest } from './types';
+
+export type CorsOptions = {
+  /**
+   * Allowed origins. `'*'` allows any origin, a function receives the
+   * request `Origin` header and decides.
+   */
+  origin: string | string[] | RegExp | ((origin: string) => boolean);
+  /** Sets `Access-Control-Allow-Credentials`, the origin is always echoed back */
+  credentials?: boolean;
+  /** Response headers readable by the browser */
+  exposedHeaders?: string[];
+  /** Request headers allowed in preflight. Defaults to whatever the browser asks for */
+  allowedHeaders?: string[];
+  /** Defaults to GET, POST and OPTIONS */
+  methods?: string[];
+  /** Seconds a preflight result may be cached */
+  maxAge?: number;
+};
+
+export function isOriginAllowed(cors: CorsOptions, origin: string) {
+  const allowed = cors.origin;
+  if (typeof allowed === 'function') return allowed(origin);
+  if (allowed instanceof RegExp) return allowed.test(origin);
+  if (Array.isArray(allowed)) return allowed.includes(origin);
+  return allowed === '*' || allowed === origin;
+}
+
+/**
+ * Headers for an actual (non-preflight) response. Returns undefined when
+ * the request is not cross-origin or the origin is not allowed.
+ */
+export function getCorsHeaders(
+  cors: CorsOptions,
+  req: WrappedHTTPRequest
+): Record<string, string> | undefined {
+  const origin = req.headers['origin'];
+  if (!origin || !isOriginAllowed(cors, origin)) return undefined;
+
+  const headers: Record<string, string> = {
+    'Access-Control-Allow-Origin':
+      cors.origin === '*' && !cors.credentials ? '*' : origin,
+  };
+  if (headers['Access-Control-Allow-Origin'] !== '*') {
+    headers['Vary'] = 'Origin';
+  }
+  if (cors.credentials) {
+    headers['Access-Control-Allow-Credentials'] = 'true';
+  }
+  if (cors.exposedHeaders?.length) {
+    headers['Access-Control-Expose-Headers'] = cors.exposedHeaders.join(', ');
+  }
+  return headers;
+}
+
+/**
+ * Answers a preflight OPTIONS request, 403 for origins that are not allowed
+ */
+export function handlePreflight(
+  cors: CorsOptions,
+  req: WrappedHTTPRequest,
+  res: HttpResponse
+) {
+  const headers = getCorsHeaders(cors, req);
+  if (!headers) {
+    res.writeStatus('403 Forbidden');
+    res.end();
+    return;
+  }
+
+  headers['Access-Control-Allow-Methods'] = (
+    cors.methods ?? ['GET', 'POST', 'OPTIONS']
+  ).join(', ');
+
+  const allowedHeaders =
+    cors.allowedHeaders?.join(', ') ??
+    req.headers['access-control-request-headers'];
+  if (allowedHeaders) {
+    headers['Access-Control-Allow-Headers'] = allowedHeaders;
+    if (!cors.allowedHeaders) {
+      headers['Vary'] = 'Origin, Access-Control-Request-Headers';
+    }
+  }
+  if (cors.maxAge !== undefined) {
+    headers['Access-Control-Max-Age'] = cors.maxAge.toString();
+  }
+
+  res.writeStatus('204 No Content');
+  for (const [key, value] of Object.entries(headers)) {
+    res.writeHeader(key, value);
+  }
+  res.endWithoutBody();
+}
@@ -1,9 +1,17 @@
-import { AnyRouter } from '@trpc/server';
+import { AnyRouter, getTRPCErrorFromUnknown } from '@trpc/server';
 import { TemplatedApp, HttpResponse, HttpRequest } from 'uWebSockets.js';
 import { applyWSHandler, WSSHandlerOptions } from './applyWsHandler';
-import { uWsHTTPRequestHandler } from './requestHandler';
+import { parseCidrs } from './clientIp';
+import { handlePreflight } from './cors';
+import { registerHealthRoutes } from './health';
+import { createMetricsRegistry } from './metrics';
+import { ALLOWED_METHODS, uWsHTTPRequestHandler } from './requestHandler';
 import { uHTTPHandlerOptions, WrappedHTTPRequest } from './types';
-import { extractAndWrapHttpRequest } from './utils';
+import {
+  createInFlightTracker,
+  extractAndWrapHttpRequest,
+  waitUntil,
+} from './utils';
 
 /**
  * @param uWsApp uWebsockets server instance
@@ -13,23 +21,132 @@ import { extractAndWrapHttpRequest } from './utils';
 export function createUWebSocketsHandler<TRouter extends AnyRouter>(
   uWsApp: TemplatedApp,
   prefix: string,
-  opts: uHTTPHandlerOptions<TRouter, WrappedHTTPRequest, HttpResponse>
+  handlerOpts: uHTTPHandlerOptions<TRouter, WrappedHTTPRequest, HttpResponse>
 ) {
+  const opts = {
+    ...handlerOpts,
+    metrics:
+      handlerOpts.metrics ??
+      (handlerOpts.metricsRoute ? createMetricsRegistry() : undefined),
+  };
+  const trustedProxies = parseCidrs(opts.trustedProxies);
+
+  let draining = false;
+  const inFlight = createInFlightTracker();
+  const shutdown = new AbortController();
+
   const handler = (res: HttpResponse, req: HttpRequest) => {
-    const wrappedReq = extractAndWrapHttpRequest(prefix, req);
+    if (draining) {
+      res.writeStatus('503 Service Unavailable');
+      res.end(undefined, true);
+      return;
+    }
+
+    const wrappedReq = extractAndWrapHttpRequest(
+      prefix,
+      req,
+      res,
+      trustedProxies
+    );
 
+    const done = inFlight.start();
     uWsHTTPRequestHandler({
       req: wrappedReq,
       res: res,
       path: wrappedReq.url,
+      shutdownSignal: shutdown.signal,
       ...opts,
-    });
+    })
+      .catch((cause) => {
+        // never left unhandled, that would end the process
+        opts.onError?.({
+          error: getTRPCErrorFromUnknown(cause),
+          type: 'unknown',
+          path: wrappedReq.url,
+          req: wrappedReq,
+          input: undefined,
+          ctx: undefined,
+        });
+      })
+      .finally(done);
   };
   uWsApp.get(prefix + '/*', handler);
+  uWsApp.head(prefix + '/*', handler);
   uWsApp.post(prefix + '/*', handler);
+  // everything else is answered with 405
+  uWsApp.any(prefix + '/*', handler);
+
+  uWsApp.options(prefix + '/*', (res, req) => {
+    const wrappedReq = extractAndWrapHttpRequest(
+      prefix,
+      req,
+      res,
+      trustedProxies
+    );
+    if (opts.cors && wrappedReq.headers['origin']) {
+      handlePreflight(opts.cors, wrappedReq, res);
+      return;
+    }
+    res.cork(() => {
+      res.writeStatus('204 No Content');
+      res.writeHeader('Allow', ALLOWED_METHODS);
+      res.endWithoutBody();
+    });
+  });
 
-  if (opts.enableSubscriptions) {
-    opts.router;
-    applyWSHandler(uWsApp, prefix, opts as WSSHandlerOptions<TRouter>);
+  const { metrics, metricsRoute } = opts;
+  if (metrics && metricsRoute) {
+    uWsApp.get(metricsRoute, (res) => {
+      const body = metrics.render();
+      res.cork(() => {
+        res.writeHeader('Content-Type', 'text/plain; version=0.0.4');
+        res.end(body);
+      });
+    });
+  }
+
+  const wsHandler = opts.enableSubscriptions
+    ? applyWSHandler(uWsApp, prefix, opts as WSSHandlerOptions<TRouter>)
+    : undefined;
+
+  if (opts.health) {
+    registerHealthRoutes(
+      uWsApp,
+      opts.health === true ? {} : opts.health,
+      () => ({
+        draining,
+        inFlightRequests: inFlight.count,
+        openConnections: wsHandler?.connectionCount ?? 0,
+      })
+    );
   }
+
+  return {
+    /**
+     * Stops accepting requests and waits for running ones, at most
+     * `timeoutMs` (10 seconds by default). Also closes the WebSocket handler
+     * when `enableSubscriptions` is set.
+     */
+    close: async ({ timeoutMs = 10000 }: { timeoutMs?: number } = {}) => {
+      const deadline = Date.now() + timeoutMs;
+      draining = true;
+      // event streams never finish on their own, browsers reconnect elsewhere
+      shutdown.abort();
+
+      await Promise.all([
+        waitUntil(inFlight.idle(), deadline),
+        wsHandler?.close({ timeoutMs }),
+      ]);
+    },
+    /**
+     * Sends `data` to every client subscribed through
+     * `topicSubscription(topic)`, a no-op without `enableSubscriptions`
+     */
+    publish: (topic: string, data: unknown) => {
+      wsHandler?.publish(topic, data);
+    },
+    broadcastReconnectNotification: () => {
+      wsHandler?.broadcastReconnectNotification();
+    },
+  };
 }
@@ -0,0 +1,96 @@
+import type { HttpResponse, TemplatedApp } from 'uWebSockets.js';
+import type { MaybePromise } from '@trpc/server';
+
+export type HealthOptions = {
+  /**
+   * Answers 200 for as long as the process serves requests, defaults to
+   * `/healthz`
+   */
+  livenessRoute?: string;
+  /**
+   * Answers 503 while draining or when a check fails, defaults to
+   * `/readyz`
+   */
+  readinessRoute?: string;
+  /** Run on every readiness probe, a check fails by throwing */
+  checks?: Record<string, () => MaybePromise<void>>;
+  /** Milliseconds a check may take before it fails, defaults to 5000 */
+  checkTimeoutMs?: number;
+};
+
+export type AdapterState = {
+  draining: boolean;
+  inFlightRequests: number;
+  openConnections: number;
+};
+
+async function runCheck(check: () => MaybePromise<void>, timeoutMs: number) {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  try {
+    await Promise.race([
+      check(),
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(
+          () => reject(new Error(`Timed out after ${timeoutMs}ms`)),
+          timeoutMs
+        );
+      }),
+    ]);
+    return 'ok';
+  } catch (cause) {
+    return cause instanceof Error ? cause.message : String(cause);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+function writeJson(res: HttpResponse, ok: boolean, body: unknown) {
+  res.cork(() => {
+    res.writeStatus(ok ? '200 OK' : '503 Service Unavailable');
+    res.writeHeader('Content-Type', 'application/json');
+    res.writeHeader('Cache-Control', 'no-store');
+    res.end(JSON.stringify(body));
+  });
+}
+
+/**
+ * Registers the liveness and readiness routes. Checks run concurrently,
+ * the readiness body names the result of each.
+ */
+export function registerHealthRoutes(
+  app: TemplatedApp,
+  options: HealthOptions,
+  getState: () => AdapterState
+) {
+  app.get(options.livenessRoute ?? '/healthz', (res) => {
+    writeJson(res, true, { status: 'ok', ...getState() });
+  });
+
+  app.get(options.readinessRoute ?? '/readyz', (res) => {
+    let aborted = false;
+    res.onAborted(() => {
+      aborted = true;
+    });
+
+    const entries = Object.entries(options.checks ?? {});
+    void Promise.all(
+      entries.map(([, check]) =>
+        runCheck(check, options.checkTimeoutMs ?? 5000)
+      )
+    ).then((results) => {
+      if (aborted) return;
+
+      const state = getState();
+      const checks = Object.fromEntries(
+        entries.map(([name], i) => [name, results[i]!])
+      );
+      const ready =
+        !state.draining && results.every((result) => result === 'ok');
+      writeJson(res, ready, {
+        status: ready ? 'ready' : 'not ready',
+        ...state,
+        checks,
+      });
+    });
+  });
+}
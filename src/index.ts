@@ -1,3 +1,43 @@
-export { applyWSHandler, WSSHandlerOptions } from './applyWsHandler';
+export {
+  applyWSHandler,
+  KEEP_ALIVE_CLOSE_CODE,
+  WSSHandlerOptions,
+  WSConnectionInfo,
+  WSHooks,
+  WSSubscriptionEndReason,
+} from './applyWsHandler';
 export { createUWebSocketsHandler } from './createUWebsocketsHandler';
+export { getCallSignal } from './callSignal';
+export {
+  multipartContentTypeHandler,
+  octetStreamContentTypeHandler,
+  FilePart,
+  FileSink,
+  UploadedFile,
+  MultipartFormData,
+} from './contentType';
+export { WSCodec, jsonCodec } from './codec';
+export { CorsOptions } from './cors';
+export { CookieOptions } from './cookies';
+export {
+  CompressionOptions,
+  CompressionCache,
+  createCompressionCache,
+} from './compression';
+export {
+  MetricsOptions,
+  MetricsRegistry,
+  createMetricsRegistry,
+} from './metrics';
+export { HealthOptions } from './health';
+export { ResponseBuilder } from './responseBuilder';
+export {
+  tracked,
+  TrackedEvent,
+  ReplayStore,
+  createMemoryReplayStore,
+} from './replay';
+export { SSEOptions } from './sse';
+export { topicSubscription } from './topics';
+export { readRequestBody } from './utils';
 export * from './types';
@@ -0,0 +1,223 @@
+import type { AnyRouter, ProcedureType } from '@trpc/server';
+
+type Labels = Record<string, string>;
+
+export type MetricsOptions = {
+  /** Upper bounds of the latency histogram buckets, in seconds */
+  buckets?: number[];
+};
+
+const DEFAULT_BUCKETS = [
+  0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10,
+];
+
+function escapeLabelValue(value: string) {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, '\\n');
+}
+
+function formatLabels(labels: Labels) {
+  const pairs = Object.entries(labels).map(
+    ([name, value]) => `${name}="${escapeLabelValue(value)}"`
+  );
+  return pairs.length ? `{${pairs.join(',')}}` : '';
+}
+
+function header(name: string, help: string, type: string) {
+  return [`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`];
+}
+
+function createCounter(
+  name: string,
+  help: string,
+  type: 'counter' | 'gauge' = 'counter'
+) {
+  // keyed by the formatted labels
+  const values = new Map<string, number>();
+  return {
+    inc(labels: Labels = {}, value = 1) {
+      const key = formatLabels(labels);
+      values.set(key, (values.get(key) ?? 0) + value);
+    },
+    render() {
+      const lines = header(name, help, type);
+      for (const [labels, value] of values) {
+        lines.push(`${name}${labels} ${value}`);
+      }
+      return lines;
+    },
+  };
+}
+
+function createHistogram(name: string, help: string, buckets: number[]) {
+  const bounds = [...buckets].sort((a, b) => a - b);
+  const series = new Map<
+    string,
+    { labels: Labels; counts: number[]; sum: number; count: number }
+  >();
+  return {
+    observe(labels: Labels, value: number) {
+      const key = formatLabels(labels);
+      let entry = series.get(key);
+      if (!entry) {
+        entry = { labels, counts: bounds.map(() => 0), sum: 0, count: 0 };
+        series.set(key, entry);
+      }
+      const index = bounds.findIndex((bound) => value <= bound);
+      if (index !== -1) entry.counts[index]!++;
+      entry.sum += value;
+      entry.count++;
+    },
+    render() {
+      const lines = header(name, help, 'histogram');
+      for (const [key, { labels, counts, sum, count }] of series) {
+        let cumulative = 0;
+        bounds.forEach((bound, i) => {
+          cumulative += counts[i]!;
+          lines.push(
+            `${name}_bucket${formatLabels({
+              ...labels,
+              le: String(bound),
+            })} ${cumulative}`
+          );
+        });
+        lines.push(
+          `${name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`
+        );
+        lines.push(`${name}_sum${key} ${sum}`);
+        lines.push(`${name}_count${key} ${count}`);
+      }
+      return lines;
+    },
+  };
+}
+
+/**
+ * Label of a procedure path. Paths come from clients, those the router does
+ * not know share one label so they cannot grow the series without bound.
+ */
+export function getPathLabel(router: AnyRouter, path: string) {
+  return Object.prototype.hasOwnProperty.call(router._def.procedures, path)
+    ? path
+    : 'unknown';
+}
+
+/**
+ * Collects adapter metrics and renders them in the Prometheus text format.
+ * Pass the same registry to `createUWebSocketsHandler` and `applyWSHandler`
+ * to expose both on one route.
+ */
+export function createMetricsRegistry({
+  buckets = DEFAULT_BUCKETS,
+}: MetricsOptions = {}) {
+  const requests = createCounter(
+    'trpc_http_requests_total',
+    'HTTP requests by procedure path and status'
+  );
+  const durations = createHistogram(
+    'trpc_procedure_duration_seconds',
+    'Query and mutation latency',
+    buckets
+  );
+  const subscriptions = createCounter(
+    'trpc_ws_subscriptions',
+    'Active WebSocket subscriptions by procedure path',
+    'gauge'
+  );
+  const received = createCounter(
+    'trpc_ws_messages_received_total',
+    'WebSocket messages received'
+  );
+  const sent = createCounter(
+    'trpc_ws_messages_sent_total',
+    'WebSocket messages sent'
+  );
+  const backpressured = createCounter(
+    'trpc_ws_sends_backpressured_total',
+    'WebSocket messages buffered because of backpressure'
+  );
+  const dropped = createCounter(
+    'trpc_ws_sends_dropped_total',
+    'WebSocket messages dropped at the backpressure limit'
+  );
+  // unlabeled series are exposed from the start
+  for (const counter of [received, sent, backpressured, dropped]) {
+    counter.inc({}, 0);
+  }
+  const connectionCounts = new Set<() => number>();
+
+  return {
+    /**
+     * Counts an HTTP request once per procedure of a batch. Paths are
+     * expected to go through `getPathLabel`, as for all methods here.
+     */
+    recordRequest(paths: string[], status: number | undefined) {
+      for (const path of paths) {
+        requests.inc({ path, status: status ? String(status) : 'unknown' });
+      }
+    },
+    recordCall(
+      transport: 'http' | 'ws',
+      type: ProcedureType,
+      path: string,
+      durationMs: number
+    ) {
+      if (type === 'subscription') return;
+      durations.observe({ transport, type, path }, durationMs / 1000);
+    },
+    subscriptionStarted(path: string) {
+      subscriptions.inc({ path });
+    },
+    subscriptionEnded(path: string) {
+      subscriptions.inc({ path }, -1);
+    },
+    messageReceived() {
+      received.inc();
+    },
+    /** Takes the result of uWs `send`: 1 sent, 0 backpressured, 2 dropped */
+    messageSent(result: number) {
+      if (result === 2) {
+        dropped.inc();
+        return;
+      }
+      sent.inc();
+      if (result === 0) backpressured.inc();
+    },
+    /**
+     * Counts a topic message sent to `recipients` clients. uWs does not
+     * report backpressure for published messages.
+     */
+    messagePublished(recipients: number) {
+      sent.inc({}, recipients);
+    },
+    /** Adds a source of open connections, read when rendering */
+    trackConnections(count: () => number) {
+      connectionCounts.add(count);
+    },
+    render() {
+      let connections = 0;
+      for (const count of connectionCounts) connections += count();
+      return (
+        [
+          ...requests.render(),
+          ...durations.render(),
+          ...header(
+            'trpc_ws_connections',
+            'Open WebSocket connections',
+            'gauge'
+          ),
+          `trpc_ws_connections ${connections}`,
+          ...subscriptions.render(),
+          ...received.render(),
+          ...sent.render(),
+          ...backpressured.render(),
+          ...dropped.render(),
+        ].join('\n') + '\n'
+      );
+    },
+  };
+}
+
+export type MetricsRegistry = ReturnType<typeof createMetricsRegistry>;
@@ -0,0 +1,127 @@
+export type MultipartPartHeaders = {
+  name: string;
+  filename?: string;
+  contentType: string;
+};
+
+type MultipartCallbacks = {
+  onPart: (headers: MultipartPartHeaders) => void;
+  onData: (chunk: Buffer) => void;
+  onPartEnd: () => void;
+};
+
+const CRLF = Buffer.from('\r\n');
+const HEADERS_END = Buffer.from('\r\n\r\n');
+const MAX_HEADERS_SIZE = 16 * 1024;
+
+export function getBoundary(contentType: string) {
+  const match = /;\s*boundary=(?:"([^"]+)"|([^;\s]+))/i.exec(contentType);
+  return match?.[1] ?? match?.[2];
+}
+
+function parseHeaders(raw: string): MultipartPartHeaders {
+  let name = '';
+  let filename: string | undefined;
+  let contentType = 'text/plain';
+
+  for (const line of raw.split('\r\n')) {
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+
+    const key = line.substring(0, separator).trim().toLowerCase();
+    const value = line.substring(separator + 1).trim();
+
+    if (key === 'content-disposition') {
+      name = /(?:^|;)\s*name="([^"]*)"/i.exec(value)?.[1] ?? name;
+      filename = /(?:^|;)\s*filename="([^"]*)"/i.exec(value)?.[1];
+    } else if (key === 'content-type') {
+      contentType = value;
+    }
+  }
+
+  return {
+    name,
+    // only pass basename as the multipart/form-data spec recommends
+    // https://datatracker.ietf.org/doc/html/rfc7578#section-4.2
+    filename: filename?.split(/[/\\]/).pop(),
+    contentType,
+  };
+}
+
+/**
+ * Incremental multipart/form-data parser. Part bodies are handed out as
+ * they arrive, only a delimiter's worth of bytes is held back between writes.
+ */
+export function createMultipartParser(
+  boundary: string,
+  callbacks: MultipartCallbacks
+) {
+  const delimiter = Buffer.from(`\r\n--${boundary}`);
+
+  // the very first delimiter is not preceded by a line break
+  let buffer = CRLF;
+  let state: 'preamble' | 'delimiter' | 'headers' | 'body' | 'done' =
+    'preamble';
+
+  function process() {
+    for (;;) {
+      switch (state) {
+        case 'preamble':
+        case 'body': {
+          const index = buffer.indexOf(delimiter);
+          if (index === -1) {
+            const safe = buffer.length - delimiter.length + 1;
+            if (safe > 0) {
+              if (state === 'body') callbacks.onData(buffer.subarray(0, safe));
+              buffer = buffer.subarray(safe);
+            }
+            return;
+          }
+          if (state === 'body') {
+            if (index > 0) callbacks.onData(buffer.subarray(0, index));
+            callbacks.onPartEnd();
+          }
+          buffer = buffer.subarray(index + delimiter.length);
+          state = 'delimiter';
+          break;
+        }
+        case 'delimiter': {
+          if (buffer.length < 2) return;
+          // "--" after the delimiter closes the body
+          state = buffer[0] === 0x2d && buffer[1] === 0x2d ? 'done' : 'headers';
+          break;
+        }
+        case 'headers': {
+          const index = buffer.indexOf(HEADERS_END);
+          if (index === -1) {
+            if (buffer.length > MAX_HEADERS_SIZE) {
+              throw new Error('Multipart headers are too large');
+            }
+            return;
+          }
+          callbacks.onPart(
+            parseHeaders(buffer.subarray(CRLF.length, index).toString())
+          );
+          buffer = buffer.subarray(index + HEADERS_END.length);
+          state = 'body';
+          break;
+        }
+        case 'done':
+          return;
+      }
+    }
+  }
+
+  return {
+    write(chunk: Buffer) {
+      if (state === 'done') return;
+      buffer = buffer.length ? Buffer.concat([buffer, chunk]) : chunk;
+      process();
+    },
+    end() {
+      if (state !== 'done') {
+        throw new Error('Unexpected end of multipart body');
+      }
+    },
+  };
+}
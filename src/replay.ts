@@ -0,0 +1,93 @@
+import type { MaybePromise } from '@trpc/server';
+
+const trackedSymbol = Symbol('trpc-uwebsockets-tracked');
+
+export type TrackedEvent<TData = unknown> = { id: string; data: TData };
+
+/**
+ * Tags a subscription event with an id. With `resumable` enabled the event
+ * is kept for replay, clients resubscribing with `lastEventId` in their
+ * input get the events they missed after it. Clients receive `{ id, data }`.
+ */
+export function tracked<TData>(id: string, data: TData): TrackedEvent<TData> {
+  // not enumerable, so it is never serialized
+  return Object.defineProperty({ id, data }, trackedSymbol, { value: true });
+}
+
+export function isTrackedEvent(value: unknown): value is TrackedEvent {
+  return !!(value as { [trackedSymbol]?: boolean } | null)?.[trackedSymbol];
+}
+
+/**
+ * Keeps tracked events per subscription key. The adapter does not wait for
+ * `append`, so a remote store should not fail subscriptions on errors.
+ */
+export type ReplayStore = {
+  append(key: string, event: TrackedEvent): MaybePromise<void>;
+  /**
+   * Events after `lastEventId`, oldest first. All buffered events when the
+   * id is no longer buffered.
+   */
+  since(key: string, lastEventId: string): MaybePromise<TrackedEvent[]>;
+};
+
+/**
+ * In-memory replay buffer holding the last `maxEvents` events of at most
+ * `maxKeys` subscription keys, the least recently written key goes first
+ */
+export function createMemoryReplayStore({
+  maxEvents = 100,
+  maxKeys = 1000,
+}: { maxEvents?: number; maxKeys?: number } = {}): ReplayStore {
+  const buffers = new Map<string, TrackedEvent[]>();
+  return {
+    append(key, event) {
+      const events = buffers.get(key) ?? [];
+      // every subscriber of a key sees the same events
+      if (events.some((buffered) => buffered.id === event.id)) return;
+
+      events.push({ id: event.id, data: event.data });
+      if (events.length > maxEvents) events.shift();
+      buffers.delete(key);
+      buffers.set(key, events);
+      if (buffers.size > maxKeys) {
+        buffers.delete(buffers.keys().next().value!);
+      }
+    },
+    since(key, lastEventId) {
+      const events = buffers.get(key) ?? [];
+      const index = events.findIndex((event) => event.id === lastEventId);
+      return events.slice(index + 1);
+    },
+  };
+}
+
+/**
+ * Subscriptions of a path with the same subscriber key and input share a
+ * replay buffer, `lastEventId` aside
+ */
+export function getReplayKey(
+  path: string,
+  input: unknown,
+  subscriberKey: string
+) {
+  if (input && typeof input === 'object' && 'lastEventId' in input) {
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { lastEventId, ...rest } = input as Record<string, unknown>;
+    input = rest;
+  }
+  return 'path:' + path + ':' + JSON.stringify([subscriberKey, input ?? null]);
+}
+
+/**
+ * Topic subscriptions share one replay buffer per topic, like they share
+ * the published events
+ */
+export function getTopicReplayKey(topic: string) {
+  return 'topic:' + topic;
+}
+
+export function getLastEventId(input: unknown) {
+  const lastEventId = (input as { lastEventId?: unknown } | null)?.lastEventId;
+  return typeof lastEventId === 'string' ? lastEventId : undefined;
+}
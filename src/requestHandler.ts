@@ -1,29 +1,181 @@
-import { AnyRouter, inferRouterContext } from '@trpc/server';
-import { getPostBody } from './utils';
 import {
+  AnyRouter,
+  getTRPCErrorFromUnknown,
+  inferRouterContext,
+  ProcedureType,
+  TRPCError,
+} from '@trpc/server';
+import { getContentTypeHandler } from './contentType';
+import { getCorsHeaders } from './cors';
+import {
+  HTTPRequestInfo,
   uHTTPRequestHandlerOptions,
   WrappedHTTPRequest,
   WrappedHTTPResponse,
 } from './types';
 import type { HTTPRequest } from '@trpc/server/src/http/types';
-import { resolveHTTPResponse } from '@trpc/server/http';
+import type { BodyResult } from '@trpc/server/dist/http/contentType';
+import type {
+  HTTPResponse,
+  ResponseChunk,
+} from '@trpc/server/src/http/internals/types';
+import {
+  getBatchStreamFormatter,
+  getHTTPStatusCodeFromError,
+  resolveHTTPResponse,
+} from '@trpc/server/http';
+import { getErrorShape, transformTRPCResponse } from '@trpc/server/shared';
+import { createResponseWriter, endWithBody, writeHead } from './responseWriter';
+import { createResponseBuilder } from './responseBuilder';
+import { runWithCallSignal } from './callSignal';
+import { getPathLabel } from './metrics';
+import {
+  bufferRequestBody,
+  getPaths,
+  getProcedureLimit,
+  isSupportedContentEncoding,
+  runMiddleware,
+} from './utils';
+import {
+  compressBody,
+  createCompressingWriter,
+  selectEncoding,
+} from './compression';
+import {
+  EVENT_STREAM_HEADERS,
+  isEventStreamRequest,
+  serveEventStream,
+} from './sse';
+
+const DEFAULT_HIGH_WATER_MARK = 64 * 1024;
+
+export const ALLOWED_METHODS = 'GET, HEAD, POST, OPTIONS';
+
+/**
+ * Answers with a tRPC error outside of `resolveHTTPResponse`, one per
+ * procedure for batch calls. `status` overrides the one of the error code,
+ * for statuses tRPC has no code for.
+ */
+function respondWithError<
+  TRouter extends AnyRouter,
+  TRequest extends WrappedHTTPRequest,
+  TResponse extends WrappedHTTPResponse
+>(
+  opts: uHTTPRequestHandlerOptions<TRouter, TRequest, TResponse>,
+  error: TRPCError,
+  isBatchCall: boolean,
+  type: ProcedureType = opts.req.method === 'POST' ? 'mutation' : 'query',
+  status = getHTTPStatusCodeFromError(error)
+) {
+  opts.onError?.({
+    error,
+    type,
+    path: opts.path,
+    req: opts.req,
+    input: undefined,
+    ctx: undefined,
+  });
+
+  const config = opts.router._def._config;
+  const responses = getPaths(opts.path, isBatchCall).map((path) => {
+    const shape = getErrorShape({
+      config,
+      error,
+      type,
+      path,
+      input: undefined,
+      ctx: undefined,
+    });
+    // the default shape repeats the status
+    const data = shape.data as { httpStatus?: number } | undefined;
+    if (data?.httpStatus !== undefined) data.httpStatus = status;
+    return { error: shape };
+  });
+  const body = JSON.stringify(
+    transformTRPCResponse(config, isBatchCall ? responses : responses[0]!)
+  );
+
+  const corsHeaders = opts.cors ? getCorsHeaders(opts.cors, opts.req) : {};
+  opts.res.cork(() => {
+    writeHead(opts.res, {
+      status,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+    opts.res.end(body);
+  });
+  return { status, bytes: Buffer.byteLength(body) };
+}
 
 export async function uWsHTTPRequestHandler<
   TRouter extends AnyRouter,
   TRequest extends WrappedHTTPRequest,
   TResponse extends WrappedHTTPResponse
 >(opts: uHTTPRequestHandlerOptions<TRouter, TRequest, TResponse>) {
-  const handleViaMiddleware = opts.middleware ?? ((_req, _res, next) => next());
-  let aborted = false;
+  // uWs keeps only the last onAborted handler, so everything else listens here
+  const abortController = new AbortController();
+  const signal = abortController.signal;
   opts.res.onAborted(() => {
-    // console.log('request was aborted');
-    aborted = true;
+    abortController.abort();
   });
-  return handleViaMiddleware(opts.req, opts.res, async (err) => {
-    if (err) throw err;
 
+  const isBatchCall = !!opts.req.query.get('batch');
+  const info: HTTPRequestInfo = {
+    req: opts.req,
+    paths: getPaths(opts.path, isBatchCall),
+    isBatchCall,
+    startedAt: Date.now(),
+    state: {},
+  };
+  opts.onRequestStart?.(info);
+  let responseStatus: number | undefined;
+  let bytes = 0;
+  let isEventStream = false;
+  let responseWriter: ReturnType<typeof createResponseWriter> | undefined;
+
+  const timeoutMs = getProcedureLimit(
+    opts.router,
+    opts.path,
+    isBatchCall,
+    'timeoutMs',
+    opts.timeoutMs
+  );
+  const maxBodySize = getProcedureLimit(
+    opts.router,
+    opts.path,
+    isBatchCall,
+    'maxBodySize',
+    opts.maxBodySize
+  );
+  let streaming = false;
+  const timer =
+    timeoutMs === undefined
+      ? undefined
+      : setTimeout(() => {
+          if (signal.aborted) return;
+          const error = new TRPCError({
+            code: 'TIMEOUT',
+            message: `Request timed out after ${timeoutMs}ms`,
+          });
+          abortController.abort(error);
+          // a streamed response has its status out already
+          if (streaming) opts.res.close();
+          else
+            ({ status: responseStatus, bytes } = respondWithError(
+              opts,
+              error,
+              isBatchCall
+            ));
+        }, timeoutMs);
+
+  const handler = async (middlewareError?: TRPCError) => {
+    const builder = createResponseBuilder();
+    const createContextOpts = {
+      ...opts,
+      response: builder.response,
+      signal,
+    };
     const createContext = async (): Promise<inferRouterContext<TRouter>> => {
-      return await opts.createContext?.(opts); // TODO type this up
+      return await opts.createContext?.(createContextOpts); // TODO type this up
     };
 
     // this may not be needed
@@ -31,18 +183,225 @@ export async function uWsHTTPRequestHandler<
 
     const { res, req } = opts;
 
-    if (aborted) return;
+    if (signal.aborted) return;
+
+    if (
+      opts.sse &&
+      !middlewareError &&
+      isEventStreamRequest(opts.router, req, opts.path, isBatchCall)
+    ) {
+      // streams stay open for as long as the subscription runs
+      clearTimeout(timer);
+      isEventStream = true;
+      try {
+        await serveEventStream(opts, {
+          ctx: await createContext(),
+          signal,
+          options: opts.sse === true ? {} : opts.sse,
+          start: () => {
+            const head = builder.merge({
+              status: 200,
+              headers: {
+                ...(opts.cors && getCorsHeaders(opts.cors, req)),
+                ...EVENT_STREAM_HEADERS,
+              },
+            });
+            responseStatus = head.status;
+            responseWriter = createResponseWriter(res, signal);
+            res.cork(() => {
+              writeHead(res, head);
+            });
+            return responseWriter;
+          },
+        });
+      } catch (cause) {
+        if (signal.aborted) return;
+        ({ status: responseStatus, bytes } = respondWithError(
+          opts,
+          getTRPCErrorFromUnknown(cause),
+          false,
+          'subscription'
+        ));
+      }
+      return;
+    }
+
+    // HEAD is resolved like GET and answered without the body
+    const isHead = req.method === 'HEAD';
+    const method = isHead ? 'GET' : req.method;
+    const isMethodAllowed = method === 'GET' || method === 'POST';
 
-    const bodyResult = await getPostBody(req.method, res, opts.maxBodySize);
+    const bodyOpts = {
+      req: isHead ? { ...req, method } : req,
+      res,
+      signal,
+      maxBodySize,
+    };
+    const contentTypeHandler = getContentTypeHandler(
+      bodyOpts,
+      opts.experimental_contentTypeHandlers
+    );
+    const hasBody = isMethodAllowed && method !== 'GET';
+    // answered with 415, tRPC has no code for it
+    let unsupportedMediaType: TRPCError | undefined;
+
+    const readBody = async (): Promise<BodyResult> => {
+      if (middlewareError) return { ok: false, error: middlewareError };
+      if (
+        opts.maxBatchSize !== undefined &&
+        info.paths.length > opts.maxBatchSize
+      ) {
+        return {
+          ok: false,
+          error: new TRPCError({
+            code: 'BAD_REQUEST',
+            message: `Batch of ${info.paths.length} calls exceeds the limit of ${opts.maxBatchSize}`,
+          }),
+        };
+      }
+      if (!isMethodAllowed) {
+        return {
+          ok: false,
+          error: new TRPCError({
+            code: 'METHOD_NOT_SUPPORTED',
+            message: `Unsupported method "${method}"`,
+          }),
+        };
+      }
+      if (hasBody && !isSupportedContentEncoding(req)) {
+        unsupportedMediaType = new TRPCError({
+          code: 'BAD_REQUEST',
+          message: `Unsupported content-encoding "${req.headers['content-encoding']}"`,
+        });
+        return { ok: false, error: unsupportedMediaType };
+      }
+      const contentLength = Number(req.headers['content-length']);
+      if (
+        hasBody &&
+        bodyOpts.maxBodySize &&
+        contentLength > bodyOpts.maxBodySize
+      ) {
+        // answered without reading the body
+        return {
+          ok: false,
+          error: new TRPCError({ code: 'PAYLOAD_TOO_LARGE' }),
+        };
+      }
+      if (contentTypeHandler) {
+        try {
+          return await contentTypeHandler.getBody(bodyOpts);
+        } catch (cause) {
+          return { ok: false, error: getTRPCErrorFromUnknown(cause) };
+        }
+      }
+      if (!hasBody) return { ok: true, data: undefined, preprocessed: false };
+      unsupportedMediaType = new TRPCError({
+        code: 'BAD_REQUEST',
+        message: `Unsupported content-type "${req.headers['content-type']}"`,
+      });
+      return { ok: false, error: unsupportedMediaType };
+    };
+    const bodyResult = await readBody();
+
+    if (
+      !bodyResult.ok &&
+      bodyResult.error === unsupportedMediaType &&
+      !signal.aborted
+    ) {
+      ({ status: responseStatus, bytes } = respondWithError(
+        opts,
+        unsupportedMediaType,
+        isBatchCall,
+        undefined,
+        415
+      ));
+      return;
+    }
+
+    const reqHeaders = { ...req.headers };
+    // there is no body to stream
+    if (isHead) delete reqHeaders['trpc-batch-mode'];
 
     const reqObj: HTTPRequest = {
-      method: opts.req.method!,
-      headers: opts.req.headers,
+      method,
+      headers: reqHeaders,
       query,
       body: bodyResult.ok ? bodyResult.data : undefined,
     };
 
-    const result = await resolveHTTPResponse({
+    const corsHeaders = opts.cors ? getCorsHeaders(opts.cors, req) : undefined;
+
+    const compression =
+      opts.responseCompression === true
+        ? {}
+        : opts.responseCompression || undefined;
+
+    let head: ReturnType<typeof builder.merge> | undefined;
+    let fullBody: string | undefined;
+    let succeeded = false;
+    let formatter: ReturnType<typeof getBatchStreamFormatter> | undefined;
+    let writer:
+      | {
+          write(chunk: string): void;
+          end(chunk?: string): void | Promise<void>;
+        }
+      | undefined;
+
+    const unstable_onHead = (
+      headResponse: HTTPResponse,
+      isStreaming: boolean
+    ) => {
+      // responseMeta wins over CORS, values queued on the context over both
+      const { status, headers } = builder.merge({
+        status: headResponse.status,
+        headers: {
+          ...corsHeaders,
+          ...(!isMethodAllowed && { Allow: ALLOWED_METHODS }),
+          ...headResponse.headers,
+        },
+      });
+
+      // the header picks between streamed and plain batch responses
+      if (isBatchCall) {
+        const vary = headers['Vary'];
+        headers['Vary'] = vary ? 'trpc-batch-mode, ' + vary : 'trpc-batch-mode';
+      }
+
+      if (!isStreaming) {
+        // written together with the body in a single cork
+        head = { status, headers };
+        succeeded = headResponse.status < 400;
+        return;
+      }
+      if (signal.aborted) return;
+
+      const encoding =
+        compression &&
+        selectEncoding(compression, req.headers['accept-encoding'], headers);
+      if (encoding) headers['Content-Encoding'] = encoding;
+
+      streaming = true;
+      responseStatus = status;
+      formatter = getBatchStreamFormatter();
+      responseWriter = createResponseWriter(res, signal);
+      writer = encoding
+        ? createCompressingWriter(responseWriter, encoding, signal)
+        : responseWriter;
+      res.cork(() => {
+        writeHead(res, { status, headers });
+      });
+    };
+
+    const unstable_onChunk = ([index, body]: ResponseChunk) => {
+      if (index !== -1) {
+        writer?.write(formatter!(index, body));
+        return;
+      }
+      // full response, no streaming
+      fullBody = body;
+    };
+
+    await resolveHTTPResponse({
       batching: opts.batching,
       responseMeta: opts.responseMeta,
       path: opts.path,
@@ -50,35 +409,109 @@ export async function uWsHTTPRequestHandler<
       router: opts.router,
       req: reqObj,
       error: bodyResult.ok ? null : bodyResult.error,
-      preprocessedBody: false,
+      preprocessedBody: bodyResult.ok ? bodyResult.preprocessed : false,
+      contentTypeHandler: contentTypeHandler?.getInputs
+        ? { ...contentTypeHandler, getInputs: contentTypeHandler.getInputs }
+        : undefined,
       onError(o) {
         opts?.onError?.({
           ...o,
           req: opts.req,
         });
       },
+      unstable_onHead,
+      unstable_onChunk,
     });
 
-    if (aborted) {
+    if (writer) {
+      await writer.end(formatter!.end());
       return;
     }
+    if (!head || fullBody === undefined || signal.aborted) return;
 
-    res.cork(() => {
-      res.writeStatus(result.status.toString()); // is this okay?
+    // errors are still answered with their JSON
+    let body: string | Uint8Array =
+      !isBatchCall && succeeded && builder.body !== undefined
+        ? builder.body
+        : fullBody;
+    const encoding =
+      compression &&
+      selectEncoding(compression, req.headers['accept-encoding'], head.headers);
+    if (encoding) {
+      const compressed = await compressBody(compression, encoding, body);
+      if (signal.aborted) return;
+      if (compressed) {
+        head.headers['Content-Encoding'] = encoding;
+        body = compressed;
+      }
+    }
 
-      // oldschool way of writing headers
-      for (const [key, value] of Object.entries(result.headers ?? {})) {
-        if (typeof value === 'undefined') {
-          continue;
-        }
-        if (Array.isArray(value))
-          value.forEach((v) => {
-            res.writeHeader(key, v);
-          });
-        else res.writeHeader(key, value);
+    // the procedures are done, a slow client is not a timeout
+    clearTimeout(timer);
+    const length =
+      typeof body === 'string' ? Buffer.byteLength(body) : body.byteLength;
+    responseStatus = head.status;
+    bytes = isHead ? 0 : length;
+    res.cork(() => {
+      writeHead(res, head!);
+      if (isHead) {
+        res.endWithoutBody(length.toString());
+        return;
       }
+      endWithBody(
+        res,
+        body,
+        signal,
+        opts.highWaterMark ?? DEFAULT_HIGH_WATER_MARK
+      );
+    });
+  };
 
-      res.end(result.body);
+  // middleware may wait before the body is read
+  if (opts.middleware && opts.req.method === 'POST') {
+    bufferRequestBody(opts.res, maxBodySize);
+  }
+
+  return runWithCallSignal(signal, () =>
+    runMiddleware(
+      opts.middleware,
+      opts.req,
+      opts.res,
+      signal,
+      handler,
+      (error) => {
+        opts.onError?.({
+          error,
+          type: 'unknown',
+          path: opts.path,
+          req: opts.req,
+          input: undefined,
+          ctx: undefined,
+        });
+      }
+    )
+  ).finally(() => {
+    clearTimeout(timer);
+    const durationMs = Date.now() - info.startedAt;
+    if (opts.metrics) {
+      const labels = info.paths.map((path) => getPathLabel(opts.router, path));
+      opts.metrics.recordRequest(labels, responseStatus);
+      const type = isEventStream
+        ? 'subscription'
+        : opts.req.method === 'POST'
+        ? 'mutation'
+        : 'query';
+      for (const label of labels) {
+        opts.metrics.recordCall('http', type, label, durationMs);
+      }
+    }
+    opts.onRequestEnd?.({
+      ...info,
+      status: responseStatus,
+      bytes: responseWriter?.bytesWritten ?? bytes,
+      durationMs,
+      // timeouts abort with their error as the reason
+      aborted: signal.aborted && !(signal.reason instanceof TRPCError),
     });
   });
 }
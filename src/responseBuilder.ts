@@ -0,0 +1,77 @@
+import type {
+  HTTPHeaders,
+  HTTPResponse,
+} from '@trpc/server/src/http/internals/types';
+import { CookieOptions, serializeCookie } from './cookies';
+
+/**
+ * Collects status, headers and cookies while the request is handled.
+ * Nothing touches the uWs response until it is written in one cork.
+ */
+export type ResponseBuilder = {
+  /** Overrides the status code of the response */
+  setStatus(status: number): void;
+  setHeader(name: string, value: string | string[]): void;
+  setCookie(name: string, value: string, options?: CookieOptions): void;
+  /** Expires the cookie, pass the same `path`/`domain` it was set with */
+  clearCookie(name: string, options?: CookieOptions): void;
+  /**
+   * Sends `body` instead of the JSON result of a single call, e.g. a
+   * pre-serialized export. Buffers are written as they are. Set the
+   * `Content-Type` header to match.
+   */
+  setBody(body: string | Uint8Array): void;
+};
+
+export function createResponseBuilder() {
+  let status: number | undefined;
+  const headers: HTTPHeaders = {};
+  const cookies: string[] = [];
+  let body: string | Uint8Array | undefined;
+
+  const response: ResponseBuilder = {
+    setStatus(value) {
+      status = value;
+    },
+    setHeader(name, value) {
+      headers[name] = value;
+    },
+    setCookie(name, value, options) {
+      cookies.push(serializeCookie(name, value, options));
+    },
+    clearCookie(name, options) {
+      cookies.push(
+        serializeCookie(name, '', {
+          ...options,
+          expires: new Date(0),
+          maxAge: undefined,
+        })
+      );
+    },
+    setBody(value) {
+      body = value;
+    },
+  };
+
+  return {
+    response,
+    get body() {
+      return body;
+    },
+    /** Queued values take precedence over the head from `responseMeta` */
+    merge(head: HTTPResponse): Required<Omit<HTTPResponse, 'body'>> {
+      const merged: HTTPHeaders = { ...head.headers, ...headers };
+      if (cookies.length) {
+        const existing = merged['Set-Cookie'] ?? [];
+        merged['Set-Cookie'] = [
+          ...(Array.isArray(existing) ? existing : [existing]),
+          ...cookies,
+        ];
+      }
+      return {
+        status: status ?? head.status,
+        headers: merged,
+      };
+    },
+  };
+}
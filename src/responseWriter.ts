@@ -0,0 +1,144 @@
+import type { HttpResponse, RecognizedString } from 'uWebSockets.js';
+import type { HTTPHeaders } from '@trpc/server/dist/http/internals/types';
+
+/**
+ * Writes status and headers, skipping undefined header values.
+ * Must be called inside `res.cork`.
+ */
+export function writeHead(
+  res: HttpResponse,
+  head: { status: number; headers?: HTTPHeaders }
+) {
+  res.writeStatus(head.status.toString());
+
+  for (const [key, value] of Object.entries(head.headers ?? {})) {
+    if (typeof value === 'undefined') {
+      continue;
+    }
+    if (Array.isArray(value))
+      value.forEach((v) => {
+        res.writeHeader(key, v);
+      });
+    else res.writeHeader(key, value);
+  }
+}
+
+/**
+ * Ends the response with a body of known length. Bodies above
+ * `highWaterMark` bytes go out through `tryEnd` in slices of that size, and
+ * writing resumes from `onWritable` whenever the socket pushes back.
+ * Must be called inside `res.cork`.
+ */
+export function endWithBody(
+  res: HttpResponse,
+  body: string | Uint8Array,
+  signal: AbortSignal,
+  highWaterMark: number
+) {
+  const totalSize =
+    typeof body === 'string' ? Buffer.byteLength(body) : body.byteLength;
+
+  if (totalSize <= highWaterMark) {
+    res.end(body);
+    return;
+  }
+
+  const data = typeof body === 'string' ? Buffer.from(body) : body;
+
+  // tryEnd drops whatever it could not write, the write offset tells
+  // where to pick up again
+  function pump() {
+    for (;;) {
+      const offset = res.getWriteOffset();
+      const [ok, done] = res.tryEnd(
+        data.subarray(offset, offset + highWaterMark),
+        totalSize
+      );
+      if (done) return true;
+      if (!ok) return false;
+    }
+  }
+
+  if (pump()) return;
+
+  res.onWritable(() => {
+    if (signal.aborted) return true;
+
+    let ok = false;
+    res.cork(() => {
+      ok = pump();
+    });
+    return ok;
+  });
+}
+
+function getByteLength(chunk: RecognizedString) {
+  return typeof chunk === 'string'
+    ? Buffer.byteLength(chunk)
+    : (chunk as ArrayBufferLike | ArrayBufferView).byteLength;
+}
+
+/**
+ * Streams chunks of unknown total length to the client.
+ *
+ * `res.write` always accepts the chunk, but returns false once uWS starts
+ * buffering. From then on chunks are queued here until `onWritable` fires,
+ * so a slow client only ever holds what has been produced already. Callers
+ * producing without end should watch `queuedBytes`.
+ */
+export function createResponseWriter(res: HttpResponse, signal: AbortSignal) {
+  const queue: RecognizedString[] = [];
+  let backpressured = false;
+  let ending = false;
+  let ended = false;
+  let bytesWritten = 0;
+  let queuedBytes = 0;
+
+  function flush() {
+    while (!backpressured && queue.length) {
+      const chunk = queue.shift()!;
+      const length = getByteLength(chunk);
+      queuedBytes -= length;
+      bytesWritten += length;
+      backpressured = !res.write(chunk);
+    }
+    if (!backpressured && ending && !ended) {
+      ended = true;
+      res.end();
+    }
+  }
+
+  res.onWritable(() => {
+    if (signal.aborted || ended) return true;
+
+    backpressured = false;
+    res.cork(flush);
+    return !backpressured;
+  });
+
+  return {
+    /** Bytes handed to uWs so far */
+    get bytesWritten() {
+      return bytesWritten;
+    },
+    /** Bytes waiting for the client to catch up */
+    get queuedBytes() {
+      return queuedBytes;
+    },
+    write(chunk: RecognizedString) {
+      if (signal.aborted || ending) return;
+      queue.push(chunk);
+      queuedBytes += getByteLength(chunk);
+      if (!backpressured) res.cork(flush);
+    },
+    end(chunk?: RecognizedString) {
+      if (signal.aborted || ending) return;
+      if (chunk !== undefined) {
+        queue.push(chunk);
+        queuedBytes += getByteLength(chunk);
+      }
+      ending = true;
+      if (!backpressured) res.cork(flush);
+    },
+  };
+}
@@ -0,0 +1,221 @@
+import {
+  AnyRouter,
+  callProcedure,
+  getTRPCErrorFromUnknown,
+  TRPCError,
+} from '@trpc/server';
+import { isObservable } from '@trpc/server/observable';
+import { getErrorShape, transformTRPCResponse } from '@trpc/server/shared';
+import type { createResponseWriter } from './responseWriter';
+import { getSubscriptionTopic } from './topics';
+import { isTrackedEvent } from './replay';
+import type {
+  uHTTPRequestHandlerOptions,
+  WrappedHTTPRequest,
+  WrappedHTTPResponse,
+} from './types';
+
+export type SSEOptions = {
+  /** Milliseconds between heartbeat comments, defaults to 15000 */
+  heartbeatMs?: number;
+  /** Sent as `retry`, how long browsers wait before reconnecting */
+  reconnectMs?: number;
+  /**
+   * Bytes of events that may wait for a slow client, defaults to 1 MiB.
+   * Past it the stream is closed, browsers reconnect with `Last-Event-ID`.
+   */
+  maxQueuedBytes?: number;
+};
+
+export const EVENT_STREAM_HEADERS = {
+  'Content-Type': 'text/event-stream',
+  'Cache-Control': 'no-cache',
+  // keeps nginx from buffering the stream
+  'X-Accel-Buffering': 'no',
+};
+
+export function isEventStreamRequest(
+  router: AnyRouter,
+  req: WrappedHTTPRequest,
+  path: string,
+  isBatchCall: boolean
+) {
+  return (
+    req.method === 'GET' &&
+    !isBatchCall &&
+    !!router._def.procedures[path]?._def.subscription
+  );
+}
+
+/**
+ * Input from the `input` query parameter. `Last-Event-ID`, sent by browsers
+ * when they reconnect, is added as `lastEventId`.
+ */
+function getInput(router: AnyRouter, req: WrappedHTTPRequest) {
+  let input: unknown;
+  const rawInput = req.query.get('input');
+  if (rawInput) {
+    try {
+      input = router._def._config.transformer.input.deserialize(
+        JSON.parse(rawInput)
+      );
+    } catch (cause) {
+      throw new TRPCError({ code: 'PARSE_ERROR', cause });
+    }
+  }
+
+  const lastEventId = req.headers['last-event-id'];
+  if (
+    lastEventId &&
+    (input === undefined || (typeof input === 'object' && input !== null))
+  ) {
+    input = { ...(input as object | undefined), lastEventId };
+  }
+  return input;
+}
+
+function formatEvent({
+  event,
+  id,
+  data,
+}: {
+  event?: string;
+  id?: string;
+  data: unknown;
+}) {
+  let message = '';
+  if (event) message += `event: ${event}\n`;
+  // ids cannot span lines
+  if (id !== undefined) message += `id: ${id.replace(/[\r\n]/g, '')}\n`;
+  return message + `data: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Calls the subscription and streams its events as `text/event-stream`
+ * until it completes, the client goes away or `shutdownSignal` aborts.
+ * `start` writes the head once the subscription is running, errors before
+ * that are thrown.
+ */
+export async function serveEventStream<
+  TRouter extends AnyRouter,
+  TRequest extends WrappedHTTPRequest,
+  TResponse extends WrappedHTTPResponse
+>(
+  opts: uHTTPRequestHandlerOptions<TRouter, TRequest, TResponse>,
+  {
+    ctx,
+    signal,
+    options,
+    start,
+  }: {
+    ctx: unknown;
+    signal: AbortSignal;
+    options: SSEOptions;
+    start: () => ReturnType<typeof createResponseWriter>;
+  }
+) {
+  const { router, path, req, res } = opts;
+  const config = router._def._config;
+  const input = getInput(router, req);
+
+  const result: unknown = await callProcedure({
+    procedures: router._def.procedures,
+    path,
+    rawInput: input,
+    ctx,
+    type: 'subscription',
+  });
+  if (!isObservable(result)) {
+    throw new TRPCError({
+      message: `Subscription ${path} did not return an observable`,
+      code: 'INTERNAL_SERVER_ERROR',
+    });
+  }
+  if (getSubscriptionTopic(result) !== undefined) {
+    throw new TRPCError({
+      message: `Topic subscription ${path} is only served over WebSockets`,
+      code: 'METHOD_NOT_SUPPORTED',
+    });
+  }
+  if (signal.aborted) return;
+
+  const writer = start();
+  if (options.reconnectMs !== undefined) {
+    writer.write(`retry: ${options.reconnectMs}\n\n`);
+  }
+
+  await new Promise<void>((resolve) => {
+    let unsubscribe: (() => void) | undefined;
+    let finished = false;
+    const heartbeat = setInterval(() => {
+      writer.write(': ping\n\n');
+    }, options.heartbeatMs ?? 15000);
+
+    const finish = (lastEvent?: string) => {
+      if (finished) return;
+      finished = true;
+      clearInterval(heartbeat);
+      signal.removeEventListener('abort', stop);
+      opts.shutdownSignal?.removeEventListener('abort', stop);
+      unsubscribe?.();
+      // a no-op once the client is gone
+      writer.end(lastEvent);
+      resolve();
+    };
+    const stop = () => finish();
+    signal.addEventListener('abort', stop);
+    opts.shutdownSignal?.addEventListener('abort', stop);
+
+    const sub = result.subscribe({
+      next(value) {
+        if (finished) return;
+        writer.write(
+          isTrackedEvent(value)
+            ? formatEvent({
+                id: value.id,
+                data: config.transformer.output.serialize(value.data),
+              })
+            : formatEvent({ data: config.transformer.output.serialize(value) })
+        );
+        if (writer.queuedBytes > (options.maxQueuedBytes ?? 1024 * 1024)) {
+          // the client would never catch up, what is queued is dropped
+          finish();
+          res.close();
+        }
+      },
+      error(err) {
+        const error = getTRPCErrorFromUnknown(err);
+        opts.onError?.({
+          error,
+          path,
+          type: 'subscription',
+          ctx,
+          req,
+          input,
+        });
+        finish(
+          formatEvent({
+            event: 'trpc-error',
+            data: transformTRPCResponse(config, {
+              error: getErrorShape({
+                config,
+                error,
+                type: 'subscription',
+                path,
+                input,
+                ctx,
+              }),
+            }),
+          })
+        );
+      },
+      complete() {
+        finish(formatEvent({ event: 'stopped', data: null }));
+      },
+    });
+    // the observable may have completed while subscribing
+    if (finished) sub.unsubscribe();
+    else unsubscribe = () => sub.unsubscribe();
+    if (opts.shutdownSignal?.aborted) finish();
+  });
+}
@@ -0,0 +1,25 @@
+import { Observable, observable } from '@trpc/server/observable';
+
+const topicSymbol = Symbol('trpc-uwebsockets-topic');
+
+/**
+ * Return this from a subscription procedure to bind the client to a uWS
+ * topic. Events are then sent with `publish(topic, data)` from
+ * `applyWSHandler`, using native uWS pub/sub instead of one observable per
+ * client.
+ *
+ * The returned observable never emits on its own, so the procedure only
+ * works over `applyWSHandler`.
+ */
+export function topicSubscription<TData>(
+  topic: string
+): Observable<TData, unknown> {
+  return Object.assign(
+    observable<TData>(() => undefined),
+    { [topicSymbol]: topic }
+  );
+}
+
+export function getSubscriptionTopic(value: unknown) {
+  return (value as { [topicSymbol]?: string } | null)?.[topicSymbol];
+}
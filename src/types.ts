@@ -5,36 +5,178 @@ import {
   NodeHTTPCreateContextOption,
 } from '@trpc/server/adapters/node-http';
 import { HTTPBaseHandlerOptions } from '@trpc/server/dist/http';
+import type {
+  BaseContentTypeHandler,
+  BodyResult,
+} from '@trpc/server/dist/http/contentType';
+import type { CompressionOptions } from './compression';
+import type { CorsOptions } from './cors';
+import type { HealthOptions } from './health';
+import type { MetricsRegistry } from './metrics';
+import type { ResponseBuilder } from './responseBuilder';
+import type { SSEOptions } from './sse';
 
 /**
- * @internal
+ * Connect-style middleware, may be async. It either calls `next` or answers
+ * the request on `res` itself. Errors thrown or passed to `next` are sent as
+ * tRPC errors. Listen to `signal` instead of `res.onAborted`.
  */
-type ConnectMiddleware<
+export type Middleware<
   TRequest extends WrappedHTTPRequest = WrappedHTTPRequest,
   TResponse extends WrappedHTTPResponse = WrappedHTTPResponse
-> = (req: TRequest, res: TResponse, next: (err?: any) => any) => void;
+> = (
+  req: TRequest,
+  res: TResponse,
+  next: (err?: unknown) => Promise<void>,
+  signal: AbortSignal
+) => void | Promise<void>;
+
+export type HTTPMethod =
+  | 'GET'
+  | 'HEAD'
+  | 'POST'
+  | 'PUT'
+  | 'PATCH'
+  | 'DELETE'
+  | 'OPTIONS'
+  | 'CONNECT'
+  | 'TRACE';
 
 export type WrappedHTTPRequest = {
   headers: Record<string, string>;
-  method: 'POST' | 'GET';
+  method: HTTPMethod;
   query: URLSearchParams;
   url: string;
+  /** Address of the peer connected to the socket */
+  remoteAddress: string;
+  /** Address received through the PROXY protocol, empty without it */
+  proxiedRemoteAddress: string;
+  /**
+   * Client address, taken from `Forwarded`/`X-Forwarded-For` as far as the
+   * hops are `trustedProxies`. Same as the peer address without them.
+   */
+  clientIp: string;
+  /** Parsed `Cookie` header */
+  cookies: Record<string, string>;
 };
 
 export type WrappedHTTPResponse = HttpResponse;
 
+/**
+ * Add to the router meta to give single procedures their own limits
+ */
+export type LimitsMeta = {
+  /** Overrides the `maxBodySize` handler option, in bytes */
+  maxBodySize?: number;
+  /** Overrides the `timeoutMs` handler option */
+  timeoutMs?: number;
+};
+
+export type HTTPRequestInfo = {
+  req: WrappedHTTPRequest;
+  /** Called procedures, one per call of a batch */
+  paths: string[];
+  isBatchCall: boolean;
+  startedAt: number;
+  /** Kept from `onRequestStart` to `onRequestEnd`, e.g. for a tracing span */
+  state: Record<string, unknown>;
+};
+
+export type HTTPRequestEndInfo = HTTPRequestInfo & {
+  /** Undefined when a middleware answered the request itself */
+  status: number | undefined;
+  /** Body bytes written, after compression */
+  bytes: number;
+  durationMs: number;
+  /** The client went away before the response was written */
+  aborted: boolean;
+};
+
+export type uHTTPContentTypeHandlerOptions = {
+  req: WrappedHTTPRequest;
+  /** Read the body with `readRequestBody` rather than `res.onData` */
+  res: WrappedHTTPResponse;
+  /** Fires when the client goes away while the body is being read */
+  signal: AbortSignal;
+  maxBodySize?: number;
+};
+
+export type uHTTPContentTypeHandler = {
+  isMatch(opts: uHTTPContentTypeHandlerOptions): boolean;
+  getBody(opts: uHTTPContentTypeHandlerOptions): Promise<BodyResult>;
+  /** Defaults to tRPC's JSON input parsing */
+  getInputs?: BaseContentTypeHandler<any>['getInputs'];
+};
+
 export type uHTTPHandlerOptions<
   TRouter extends AnyRouter,
   TRequest extends WrappedHTTPRequest,
   TResponse extends WrappedHTTPResponse
 > = HTTPBaseHandlerOptions<TRouter, TRequest> &
   NodeHTTPCreateContextOption<TRouter, TRequest, TResponse> & {
-    middleware?: ConnectMiddleware;
+    /** Runs in order before every request and WebSocket upgrade */
+    middleware?: Middleware | Middleware[];
     maxBodySize?: number;
-    // experimental_contentTypeHandlers?: NodeHTTPContentTypeHandler<
-    //   TRequest,
-    //   TResponse
-    // >[];
+    /**
+     * Batches of more calls are answered with `BAD_REQUEST` before any of
+     * them runs. Also applies to WebSocket batches with `enableSubscriptions`.
+     */
+    maxBatchSize?: number;
+    /**
+     * Milliseconds a request may take before it is answered with `TIMEOUT`
+     * and its signal is aborted. Unlimited by default.
+     */
+    timeoutMs?: number;
+    /**
+     * Response bodies larger than this many bytes are written in chunks of
+     * this size, waiting for the client to catch up in between.
+     * Defaults to 64 * 1024.
+     */
+    highWaterMark?: number;
+    /**
+     * Compresses responses with the best encoding the client accepts.
+     * `true` uses the defaults. WebSocket messages are compressed through
+     * the uWS `compression` option instead.
+     */
+    responseCompression?: boolean | CompressionOptions;
+    /**
+     * Body parsers picked by the request `Content-Type`, tried in order before
+     * the built-in JSON one. Other types are answered with 415.
+     */
+    experimental_contentTypeHandlers?: uHTTPContentTypeHandler[];
+
+    /**
+     * Proxies (CIDRs or plain addresses) whose forwarding headers are used
+     * to resolve `req.clientIp`
+     */
+    trustedProxies?: string[];
+    /**
+     * Answers preflight requests under the prefix and adds CORS headers to
+     * responses. The origin policy also applies to WebSocket upgrades.
+     */
+    cors?: CorsOptions;
+
+    /** Records request counts and latencies, see `createMetricsRegistry` */
+    metrics?: MetricsRegistry;
+    /**
+     * Serves `metrics` in the Prometheus text format on this path, e.g.
+     * `/metrics`. A registry is created when none is passed.
+     */
+    metricsRoute?: string;
+    /**
+     * Registers liveness and readiness routes. `true` serves them on
+     * `/healthz` and `/readyz` without checks.
+     */
+    health?: boolean | HealthOptions;
+
+    /**
+     * Serves subscriptions as `text/event-stream` on GET requests. `true`
+     * uses the defaults.
+     */
+    sse?: boolean | SSEOptions;
+
+    onRequestStart?: (info: HTTPRequestInfo) => void;
+    onRequestEnd?: (info: HTTPRequestEndInfo) => void;
 
     enableSubscriptions?: boolean;
   };
@@ -47,9 +189,33 @@ export type uHTTPRequestHandlerOptions<
   req: TRequest;
   res: TResponse;
   path: string;
+  /** Aborted when the handler shuts down, ends event streams */
+  shutdownSignal?: AbortSignal;
 } & uHTTPHandlerOptions<TRouter, TRequest, TResponse>;
 
+/**
+ * Sent by the client as its first WebSocket message when it connects with
+ * `?connectionParams=1`
+ */
+export type ConnectionParams = Record<string, string> | null;
+
 export type CreateContextOptions = NodeHTTPCreateContextFnOptions<
   WrappedHTTPRequest,
   WrappedHTTPResponse
->;
+> & {
+  /**
+   * Only set for HTTP requests. Status, headers and cookies queued here are
+   * written with the response; use it instead of writing to `res` directly.
+   */
+  response?: ResponseBuilder;
+  /**
+   * Aborted when an HTTP request is gone or timed out, or when a WebSocket
+   * connection closes. Procedures get the signal of their own WebSocket
+   * call, which also fires on `subscription.stop`, from `getCallSignal`.
+   */
+  signal?: AbortSignal;
+  /** Only set for WebSocket connections */
+  info?: {
+    connectionParams: ConnectionParams;
+  };
+};
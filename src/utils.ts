@@ -1,63 +1,252 @@
 import { HttpRequest, HttpResponse } from 'uWebSockets.js';
+import zlib from 'zlib';
 
-import { TRPCError } from '@trpc/server';
-import { WrappedHTTPRequest } from './types';
+import { AnyRouter, getTRPCErrorFromUnknown, TRPCError } from '@trpc/server';
+import {
+  HTTPMethod,
+  LimitsMeta,
+  Middleware,
+  WrappedHTTPRequest,
+  WrappedHTTPResponse,
+} from './types';
+import { Cidr, resolveClientIp } from './clientIp';
+import { parseCookies } from './cookies';
 
-export function getPostBody(
-  method: 'GET' | 'POST',
+function createDecompressor(encoding: string) {
+  if (encoding === 'gzip' || encoding === 'x-gzip') return zlib.createGunzip();
+  if (encoding === 'deflate') return zlib.createInflate();
+  if (encoding === 'br') return zlib.createBrotliDecompress();
+  return undefined;
+}
+
+function getContentEncoding(req: WrappedHTTPRequest) {
+  return (req.headers['content-encoding'] ?? 'identity').trim().toLowerCase();
+}
+
+export function isSupportedContentEncoding(req: WrappedHTTPRequest) {
+  const encoding = getContentEncoding(req);
+  return (
+    encoding === 'identity' ||
+    ['gzip', 'x-gzip', 'deflate', 'br'].includes(encoding)
+  );
+}
+
+type BodyListener = (chunk: Buffer, isLast: boolean) => void;
+
+const bufferedBodies = new WeakMap<
+  HttpResponse,
+  (onChunk: BodyListener, onError: (error: TRPCError) => void) => void
+>();
+
+/**
+ * Holds body chunks from the start of the request, uWs drops those that
+ * arrive before anyone listens, so middleware may run before the body is
+ * read. The first `readRequestBody` gets them. Bodies past `maxBodySize` are
+ * refused anyway and not held.
+ */
+export function bufferRequestBody(res: HttpResponse, maxBodySize?: number) {
+  const chunks: { chunk: Buffer; isLast: boolean }[] = [];
+  let held = 0;
+  let tooLarge = false;
+  let listener: BodyListener | undefined;
+
+  res.onData((ab, isLast) => {
+    if (listener) {
+      listener(Buffer.from(ab), isLast);
+      return;
+    }
+    if (tooLarge) return;
+    held += ab.byteLength;
+    if (maxBodySize && held > maxBodySize) {
+      tooLarge = true;
+      chunks.length = 0;
+      return;
+    }
+    // uWs reuses the chunk memory, so it has to be copied
+    chunks.push({ chunk: Buffer.concat([Buffer.from(ab)]), isLast });
+  });
+
+  bufferedBodies.set(res, (onChunk, onError) => {
+    bufferedBodies.delete(res);
+    // readers expect their callbacks after they returned, as with uWs
+    queueMicrotask(() => {
+      if (tooLarge) {
+        onError(new TRPCError({ code: 'PAYLOAD_TOO_LARGE' }));
+        return;
+      }
+      listener = onChunk;
+      for (const { chunk, isLast } of chunks.splice(0)) onChunk(chunk, isLast);
+    });
+  });
+}
+
+function listenForBody(
   res: HttpResponse,
+  onChunk: BodyListener,
+  onError: (error: TRPCError) => void
+) {
+  const take = bufferedBodies.get(res);
+  if (take) take(onChunk, onError);
+  else res.onData((ab, isLast) => onChunk(Buffer.from(ab), isLast));
+}
+
+/**
+ * Passes the request body to `onChunk` as it arrives, decompressed according
+ * to `Content-Encoding`, starting with what `bufferRequestBody` held. A chunk
+ * may point into memory uWs reuses, copy whatever is kept past the callback.
+ * Check `isSupportedContentEncoding` first, unknown encodings are read as is.
+ * Custom content-type handlers should read through it rather than
+ * `res.onData`, which misses what arrived while middleware ran.
+ * Returns a function that ignores the rest of the body.
+ */
+export function readRequestBody(
+  req: WrappedHTTPRequest,
+  res: HttpResponse,
+  onChunk: (chunk: Buffer, isLast: boolean) => void,
+  onError: (error: TRPCError) => void
+) {
+  let stopped = false;
+  const encoding = getContentEncoding(req);
+  const decompressor = createDecompressor(encoding);
+
+  const fail = (error: TRPCError) => {
+    if (stopped) return;
+    stopped = true;
+    onError(error);
+  };
+
+  if (!decompressor) {
+    listenForBody(
+      res,
+      (chunk, isLast) => {
+        if (!stopped) onChunk(chunk, isLast);
+      },
+      fail
+    );
+    return () => {
+      stopped = true;
+    };
+  }
+
+  decompressor.on('data', (chunk: Buffer) => {
+    if (!stopped) onChunk(chunk, false);
+  });
+  decompressor.on('end', () => {
+    if (!stopped) onChunk(Buffer.alloc(0), true);
+  });
+  decompressor.on('error', (cause) => {
+    fail(
+      new TRPCError({
+        code: 'BAD_REQUEST',
+        message: `Invalid ${encoding} body`,
+        cause,
+      })
+    );
+  });
+
+  listenForBody(
+    res,
+    (chunk, isLast) => {
+      if (stopped) return;
+      // uWs reuses the chunk memory, so it has to be copied
+      decompressor.write(Buffer.concat([chunk]));
+      if (isLast) decompressor.end();
+    },
+    (error) => {
+      fail(error);
+      decompressor.destroy();
+    }
+  );
+  return () => {
+    stopped = true;
+    decompressor.destroy();
+  };
+}
+
+// the client could claim any length, bigger bodies are collected in chunks
+const MAX_PREALLOCATED_BODY = 1024 * 1024;
+
+/**
+ * Buffers the whole body, at most `maxBodySize` bytes after decompression.
+ * Plain bodies within the limit are copied straight into a buffer sized by
+ * `Content-Length`. Resolves once, reading stops as soon as the limit is
+ * crossed.
+ */
+export function getRawBody(
+  req: WrappedHTTPRequest,
+  res: HttpResponse,
+  signal: AbortSignal,
   maxBodySize?: number
 ) {
   return new Promise<
-    | { ok: true; data: unknown; preprocessed: boolean }
-    | { ok: false; error: TRPCError }
+    { ok: true; data: Buffer } | { ok: false; error: TRPCError }
   >((resolve) => {
-    if (method == 'GET') {
-      // no body in get request
-      resolve({
-        ok: true,
-        data: undefined,
-        preprocessed: false,
-      });
+    // the length of a compressed body says nothing about the decompressed one
+    const contentLength =
+      getContentEncoding(req) === 'identity'
+        ? Number(req.headers['content-length'])
+        : NaN;
+    const buffer =
+      maxBodySize &&
+      Number.isSafeInteger(contentLength) &&
+      contentLength >= 0 &&
+      contentLength <= Math.min(maxBodySize, MAX_PREALLOCATED_BODY)
+        ? Buffer.allocUnsafe(contentLength)
+        : undefined;
+    const chunks: Buffer[] = [];
+    let received = 0;
+    let settled = false;
+
+    function settle(
+      result: { ok: true; data: Buffer } | { ok: false; error: TRPCError }
+    ) {
+      if (settled) return;
+      settled = true;
+      stop();
+      resolve(result);
     }
 
-    let buffer: Buffer | undefined;
+    const stop = readRequestBody(
+      req,
+      res,
+      (chunk, isLast) => {
+        if (settled) return;
 
-    res.onData((ab, isLast) => {
-      //resolve right away if there is only one chunk
-      if (buffer === undefined && isLast) {
-        resolve({
-          ok: true,
-          data: Buffer.from(ab).toString(),
-          preprocessed: false,
-        });
-        return;
-      }
+        const size = received + chunk.byteLength;
+        if (maxBodySize && size > maxBodySize) {
+          settle({
+            ok: false,
+            error: new TRPCError({ code: 'PAYLOAD_TOO_LARGE' }),
+          });
+          return;
+        }
+        if (buffer && size > buffer.byteLength) {
+          settle({
+            ok: false,
+            error: new TRPCError({
+              code: 'BAD_REQUEST',
+              message: 'Body is longer than its Content-Length',
+            }),
+          });
+          return;
+        }
 
-      const chunk = Buffer.from(ab);
+        if (buffer) chunk.copy(buffer, received);
+        else chunks.push(Buffer.from(chunk));
+        received = size;
 
-      if (maxBodySize && buffer && buffer.length >= maxBodySize) {
-        resolve({
-          ok: false,
-          error: new TRPCError({ code: 'PAYLOAD_TOO_LARGE' }),
-        });
-      }
-      if (buffer)
-        //else accumulate
-        buffer = Buffer.concat([buffer, chunk]);
-      else buffer = Buffer.concat([chunk]);
-
-      if (isLast) {
-        resolve({
-          ok: true,
-          data: buffer.toString(),
-          preprocessed: false,
-        });
-      }
-    });
+        if (isLast) {
+          settle({
+            ok: true,
+            data: buffer ? buffer.subarray(0, received) : Buffer.concat(chunks),
+          });
+        }
+      },
+      (error) => settle({ ok: false, error })
+    );
 
-    res.onAborted(() => {
-      resolve({
+    signal.addEventListener('abort', () => {
+      settle({
         ok: false,
         error: new TRPCError({ code: 'CLIENT_CLOSED_REQUEST' }),
       });
@@ -65,11 +254,78 @@ export function getPostBody(
   });
 }
 
+export async function getPostBody(
+  req: WrappedHTTPRequest,
+  res: HttpResponse,
+  signal: AbortSignal,
+  maxBodySize?: number
+): Promise<
+  | { ok: true; data: unknown; preprocessed: boolean }
+  | { ok: false; error: TRPCError }
+> {
+  if (req.method == 'GET' || req.method == 'HEAD') {
+    // no body in get request
+    return {
+      ok: true,
+      data: undefined,
+      preprocessed: false,
+    };
+  }
+
+  const result = await getRawBody(req, res, signal, maxBodySize);
+  if (!result.ok) return result;
+
+  return {
+    ok: true,
+    data: result.data.toString(),
+    preprocessed: false,
+  };
+}
+
+/**
+ * Procedure paths of a request, a malformed batch path is taken as is
+ */
+export function getPaths(path: string, isBatchCall: boolean) {
+  if (!isBatchCall) return [path];
+  try {
+    return decodeURIComponent(path).split(',');
+  } catch {
+    return [path];
+  }
+}
+
+/**
+ * A limit of a request, the value in the meta of the called procedure
+ * overrides `fallback`. Batches get the largest limit among their
+ * procedures as any of them could be called alone with that much.
+ */
+export function getProcedureLimit(
+  router: AnyRouter,
+  path: string,
+  isBatchCall: boolean,
+  key: keyof LimitsMeta,
+  fallback?: number
+) {
+  const limits = getPaths(path, isBatchCall).map(
+    (procedurePath) =>
+      (
+        router._def.procedures[procedurePath]?._def.meta as
+          | LimitsMeta
+          | undefined
+      )?.[key] ?? fallback
+  );
+  return limits.includes(undefined)
+    ? undefined
+    : Math.max(...(limits as number[]));
+}
+
 export function extractAndWrapHttpRequest(
   prefix: string,
-  req: HttpRequest
+  req: HttpRequest,
+  res: HttpResponse,
+  trustedProxies: Cidr[] = []
 ): WrappedHTTPRequest {
-  const method = req.getMethod().toUpperCase() as 'GET' | 'POST';
+  const method = req.getMethod().toUpperCase() as HTTPMethod;
   const url = req.getUrl().substring(prefix.length + 1);
   const query = new URLSearchParams(req.getQuery());
 
@@ -78,10 +334,122 @@ export function extractAndWrapHttpRequest(
     headers[key] = value;
   });
 
+  const remoteAddress = Buffer.from(res.getRemoteAddressAsText()).toString();
+  const proxiedRemoteAddress = Buffer.from(
+    res.getProxiedRemoteAddressAsText()
+  ).toString();
+
   return {
     headers,
     method,
     query,
     url,
+    remoteAddress,
+    proxiedRemoteAddress,
+    clientIp: resolveClientIp(
+      proxiedRemoteAddress || remoteAddress,
+      headers,
+      trustedProxies
+    ),
+    cookies: parseCookies(headers['cookie']),
+  };
+}
+
+/**
+ * Counts running operations and lets shutdown wait until none are left
+ */
+export function createInFlightTracker() {
+  let count = 0;
+  const waiters: (() => void)[] = [];
+
+  return {
+    get count() {
+      return count;
+    },
+    /** Returns the callback marking the operation as finished */
+    start() {
+      count++;
+      let finished = false;
+      return () => {
+        if (finished) return;
+        finished = true;
+        count--;
+        if (count === 0) waiters.splice(0).forEach((resolve) => resolve());
+      };
+    },
+    idle() {
+      return new Promise<void>((resolve) => {
+        if (count === 0) resolve();
+        else waiters.push(resolve);
+      });
+    },
+  };
+}
+
+/**
+ * Waits for the promise, but no longer than until `deadline` (a timestamp)
+ */
+export async function waitUntil(promise: Promise<void>, deadline: number) {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  await Promise.race([
+    promise,
+    new Promise<void>((resolve) => {
+      timer = setTimeout(resolve, Math.max(0, deadline - Date.now()));
+    }),
+  ]);
+  clearTimeout(timer);
+}
+
+/**
+ * Runs the middlewares in order, then `handler`. Errors thrown or passed to
+ * `next` skip the rest of the chain and are given to `handler` instead.
+ * Errors raised after `next` was called, and those of `handler` itself, go
+ * to `onLateError`, as the request is already answered downstream. Resolves
+ * once `handler` finished, also when a middleware did not wait for `next`.
+ * Nothing runs once `signal` is aborted.
+ */
+export function runMiddleware<
+  TRequest extends WrappedHTTPRequest,
+  TResponse extends WrappedHTTPResponse
+>(
+  middleware: Middleware<TRequest, TResponse> | Middleware[] | undefined,
+  req: TRequest,
+  res: TResponse,
+  signal: AbortSignal,
+  handler: (error?: TRPCError) => Promise<void>,
+  onLateError: (error: TRPCError) => void
+) {
+  const middlewares = (
+    Array.isArray(middleware) ? middleware : middleware ? [middleware] : []
+  ) as Middleware<TRequest, TResponse>[];
+
+  const runHandler = (error?: TRPCError) =>
+    handler(error).catch((cause) => {
+      onLateError(getTRPCErrorFromUnknown(cause));
+    });
+
+  const dispatch = async (index: number, err?: unknown): Promise<void> => {
+    if (signal.aborted) return;
+    if (err != null) return runHandler(getTRPCErrorFromUnknown(err));
+
+    const current = middlewares[index];
+    if (!current) return runHandler();
+
+    let downstream: Promise<void> | undefined;
+    const next = (nextErr?: unknown) => {
+      if (downstream) return Promise.resolve();
+      downstream = dispatch(index + 1, nextErr);
+      return downstream;
+    };
+    try {
+      await current(req, res, next, signal);
+    } catch (cause) {
+      const error = getTRPCErrorFromUnknown(cause);
+      if (downstream) onLateError(error);
+      else if (!signal.aborted) await runHandler(error);
+    }
+    // connect-style middleware calls `next` without waiting for it
+    await downstream;
   };
+  return dispatch(0);
 }
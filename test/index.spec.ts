@@ -1,10 +1,24 @@
 import { vi, beforeEach, afterEach, test, expect, expectTypeOf } from 'vitest';
 
 import fetch from 'node-fetch';
-import { CreateContextOptions } from '../src/types';
+import { CreateContextOptions, LimitsMeta } from '../src/types';
+import { endWithBody } from '../src/responseWriter';
 import uWs from 'uWebSockets.js';
 import z from 'zod';
-import { applyWSHandler, createUWebSocketsHandler } from '../src/index';
+import {
+  applyWSHandler,
+  createCompressionCache,
+  createUWebSocketsHandler,
+  getCallSignal,
+  KEEP_ALIVE_CLOSE_CODE,
+  MultipartFormData,
+  multipartContentTypeHandler,
+  octetStreamContentTypeHandler,
+  topicSubscription,
+  tracked,
+  TrackedEvent,
+  WSCodec,
+} from '../src/index';
 import {
   createTRPCProxyClient,
   createWSClient,
@@ -12,11 +26,14 @@ import {
   splitLink,
   TRPCClientError,
   TRPCLink,
-  // unstable_httpBatchStreamLink,
+  unstable_httpBatchStreamLink,
   wsLink,
 } from '@trpc/client';
 import { inferAsyncReturnType, initTRPC, TRPCError } from '@trpc/server';
 import EventEmitter from 'events';
+import { request } from 'http';
+import { connect } from 'net';
+import { gzipSync } from 'zlib';
 
 import { observable } from '@trpc/server/observable';
 import ws from 'ws';
@@ -30,11 +47,12 @@ interface Message {
 }
 
 const ee = new EventEmitter();
+const onProcedureAborted = vi.fn();
 function makeRouter() {
   const onNewMessageSubscription = vi.fn();
   const onSubscriptionEnded = vi.fn();
 
-  const t = initTRPC.context<Context>().create();
+  const t = initTRPC.context<Context>().meta<LimitsMeta>().create();
 
   const router = t.router({
     hello: t.procedure
@@ -68,6 +86,58 @@ function makeRouter() {
           user: ctx.user,
         };
       }),
+    bigInput: t.procedure
+      .meta({ maxBodySize: 300000 })
+      .input(z.object({ value: z.string() }))
+      .mutation(({ input }) => input.value.length),
+    untilAborted: t.procedure
+      .meta({ timeoutMs: 100 })
+      .query(async ({ ctx }) => {
+        await new Promise((resolve) =>
+          ctx.signal?.addEventListener('abort', resolve)
+        );
+        onProcedureAborted(ctx.signal?.reason);
+        return 'too late';
+      }),
+    onAbortable: t.procedure.subscription(() => {
+      getCallSignal()?.addEventListener('abort', () =>
+        onProcedureAborted('stop')
+      );
+      return observable<number>(() => undefined);
+    }),
+    slow: t.procedure.input(z.number()).query(async ({ input }) => {
+      await sleep(input);
+      return input;
+    }),
+    big: t.procedure.input(z.number()).query(({ input }) => {
+      return 'x'.repeat(input);
+    }),
+    bytes: t.procedure.input(z.number()).query(({ input, ctx }) => {
+      ctx.response?.setHeader('Content-Type', 'application/octet-stream');
+      ctx.response?.setBody(Buffer.from([...Array(input).keys()]));
+      return null;
+    }),
+    upload: t.procedure
+      .input(z.custom<MultipartFormData>())
+      .mutation(({ input }) => {
+        return {
+          fields: input.fields,
+          files: input.files.map((f) => ({
+            name: f.name,
+            filename: f.filename,
+            content: f.file.toString(),
+          })),
+        };
+      }),
+    binary: t.procedure
+      .input(z.instanceof(Buffer))
+      .mutation(({ input }) => input.length),
+    clientIp: t.procedure.query(({ ctx }) => {
+      return {
+        remoteAddress: ctx.req.remoteAddress,
+        clientIp: ctx.req.clientIp,
+      };
+    }),
     manualRes: t.procedure.query(({ ctx }) => {
       ctx.res.writeStatus('400');
       ctx.res.writeHeader('manual', 'header');
@@ -76,6 +146,17 @@ function makeRouter() {
       // ctx.res.
       return 'status 400';
     }),
+    deferredRes: t.procedure.query(({ ctx }) => {
+      ctx.response?.setStatus(202);
+      ctx.response?.setHeader('manual', 'header');
+      ctx.response?.setCookie('session', 'a b', {
+        httpOnly: true,
+        sameSite: 'lax',
+        path: '/',
+      });
+      ctx.response?.clearCookie('old', { path: '/' });
+      return ctx.req.cookies;
+    }),
     onMessage: t.procedure.input(z.string()).subscription(() => {
       const sub = observable<Message>((emit) => {
         const onMessage = (data: Message) => {
@@ -92,13 +173,52 @@ function makeRouter() {
       onNewMessageSubscription();
       return sub;
     }),
+    finite: t.procedure.subscription(() => {
+      return observable<number>((emit) => {
+        emit.next(1);
+        const timer = setTimeout(() => emit.complete(), 10);
+        return () => clearTimeout(timer);
+      });
+    }),
+    flood: t.procedure.subscription(() => {
+      return observable<string>((emit) => {
+        const timer = setInterval(() => emit.next('x'.repeat(64 * 1024)), 1);
+        return () => {
+          clearInterval(timer);
+          ee.emit('flood:end');
+        };
+      });
+    }),
+    onTopic: t.procedure.input(z.string()).subscription(({ input }) => {
+      return topicSubscription<Message>(input);
+    }),
+    onFeed: t.procedure
+      .input(z.object({ lastEventId: z.string().optional() }))
+      .subscription(() => {
+        return topicSubscription<TrackedEvent<string>>('feed');
+      }),
+    onInbox: t.procedure
+      .input(z.object({ lastEventId: z.string().optional() }))
+      .subscription(({ ctx }) => {
+        return observable<TrackedEvent<string>>((emit) => {
+          const event = `inbox:${ctx.user?.name ?? 'anonymous'}`;
+          const onEvent = (data: TrackedEvent<string>) => emit.next(data);
+          ee.on(event, onEvent);
+          return () => ee.off(event, onEvent);
+        });
+      }),
   });
   return router;
 }
 export type AppRouter = ReturnType<typeof makeRouter>;
 
 function makeContext() {
-  const createContext = ({ req, res }: CreateContextOptions) => {
+  const createContext = ({
+    req,
+    res,
+    response,
+    signal,
+  }: CreateContextOptions) => {
     const getUser = () => {
       if (req.headers.authorization === 'meow') {
         return {
@@ -113,6 +233,8 @@ function makeContext() {
     return {
       req,
       res,
+      response,
+      signal,
       // uWs,
       user: getUser(),
     };
@@ -145,16 +267,35 @@ async function startServer() {
       };
     },
     maxBodySize: 10000,
+    trustedProxies: ['127.0.0.1', '::1'],
+    experimental_contentTypeHandlers: [
+      multipartContentTypeHandler(),
+      octetStreamContentTypeHandler(),
+    ],
 
     router,
     createContext: makeContext(),
     // enableSubscriptions: true,
   });
 
-  applyWSHandler(app, '/trpc', {
+  const { publish } = applyWSHandler(app, '/trpc', {
     router,
-    createContext: async ({ req, res }) => {
-      const userName = req.query.get('user');
+    async onUpgrade({ req }) {
+      await sleep(10);
+      if (req.query.get('token') === 'invalid')
+        throw new TRPCError({
+          code: 'UNAUTHORIZED',
+          message: 'invalid token',
+        });
+    },
+    createContext: async ({
+      req,
+      res,
+      response,
+      signal,
+      info,
+    }: CreateContextOptions) => {
+      const userName = info?.connectionParams?.user ?? req.query.get('user');
 
       const fail = req.query.get('fail');
 
@@ -167,6 +308,8 @@ async function startServer() {
       return {
         req,
         res,
+        response,
+        signal,
         user: userName
           ? {
               name: userName,
@@ -187,6 +330,7 @@ async function startServer() {
   });
 
   return {
+    publish,
     close: () =>
       new Promise<void>((resolve, reject) => {
         try {
@@ -264,6 +408,21 @@ function makeClientWithWs(headers: Record<string, string>) {
   };
 }
 
+/**
+ * Serves `app` on `testPort + 1` while `run` runs, the port is freed even
+ * when an assertion fails
+ */
+async function serve(app: uWs.TemplatedApp, run: () => Promise<void>) {
+  const socket = await new Promise<uWs.us_listen_socket>((resolve) => {
+    app.listen('0.0.0.0', testPort + 1, resolve);
+  });
+  try {
+    await run();
+  } finally {
+    uWs.us_listen_socket_close(socket);
+  }
+}
+
 let t!: Awaited<ReturnType<typeof startServer>>;
 beforeEach(async () => {
   t = await startServer();
@@ -331,6 +490,211 @@ test('mutation and reading headers', async () => {
   `);
 });
 
+test('streams batch responses as they resolve', async () => {
+  const client = createTRPCProxyClient<AppRouter>({
+    links: [
+      unstable_httpBatchStreamLink({
+        url: `http://localhost:${testPort}/trpc`,
+        AbortController,
+        fetch: fetch as any,
+      }),
+    ],
+  });
+
+  const order: number[] = [];
+  await Promise.all([
+    client.slow.query(300).then((v) => order.push(v)),
+    client.slow.query(10).then((v) => order.push(v)),
+  ]);
+
+  expect(order).toEqual([10, 300]);
+});
+
+test('batch responses vary on the batch mode', async () => {
+  const url = `http://localhost:${testPort}/trpc/hello,hello?batch=1&input=${encodeURIComponent(
+    '{}'
+  )}`;
+  const plain = await fetch(url);
+  const streamed = await fetch(url, {
+    headers: { 'trpc-batch-mode': 'stream' },
+  });
+  expect(plain.headers.get('vary')).toContain('trpc-batch-mode');
+  expect(streamed.headers.get('vary')).toContain('trpc-batch-mode');
+
+  const single = await fetch(`http://localhost:${testPort}/trpc/hello`);
+  expect(single.headers.get('vary') ?? '').not.toContain('trpc-batch-mode');
+});
+
+test('large response body is written in chunks', async () => {
+  const body = Buffer.alloc(10 * 1024, 'ab');
+  const written: Buffer[] = [];
+  let offset = 0;
+  let onWritable: (() => boolean) | undefined;
+  const res: any = {
+    cork: (cb: () => void) => cb(),
+    end: vi.fn(),
+    getWriteOffset: () => offset,
+    tryEnd(chunk: Uint8Array, totalSize: number) {
+      written.push(Buffer.from(chunk));
+      offset += chunk.byteLength;
+      // every slice fills the socket buffer
+      return [false, offset === totalSize];
+    },
+    onWritable(handler: () => boolean) {
+      onWritable = handler;
+    },
+  };
+
+  endWithBody(res, body, new AbortController().signal, 4096);
+  expect(written.map((chunk) => chunk.byteLength)).toEqual([4096]);
+
+  for (let i = 0; i < 10 && !onWritable!(); i++);
+  expect(written.map((chunk) => chunk.byteLength)).toEqual([4096, 4096, 2048]);
+  expect(Buffer.concat(written)).toEqual(body);
+  expect(res.end).not.toHaveBeenCalled();
+
+  const bytes = await fetch(`http://localhost:${testPort}/trpc/bytes?input=5`);
+  expect(bytes.headers.get('content-type')).toBe('application/octet-stream');
+  expect(Buffer.from(await bytes.arrayBuffer())).toEqual(
+    Buffer.from([0, 1, 2, 3, 4])
+  );
+});
+
+test('multipart and binary uploads', async () => {
+  const boundary = 'trpcboundary';
+  const body = [
+    `--${boundary}`,
+    'Content-Disposition: form-data; name="title"',
+    '',
+    'my file',
+    `--${boundary}`,
+    'Content-Disposition: form-data; name="doc"; filename="dir/a.txt"',
+    'Content-Type: text/plain',
+    '',
+    'file contents',
+    `--${boundary}--`,
+    '',
+  ].join('\r\n');
+
+  const multipartRes = await fetch(`http://localhost:${testPort}/trpc/upload`, {
+    method: 'POST',
+    headers: { 'content-type': `multipart/form-data; boundary=${boundary}` },
+    body,
+  });
+  expect(((await multipartRes.json()) as any).result.data).toEqual({
+    fields: { title: 'my file' },
+    files: [{ name: 'doc', filename: 'a.txt', content: 'file contents' }],
+  });
+
+  const binaryRes = await fetch(`http://localhost:${testPort}/trpc/binary`, {
+    method: 'POST',
+    headers: { 'content-type': 'application/octet-stream' },
+    body: Buffer.alloc(100),
+  });
+  expect(((await binaryRes.json()) as any).result.data).toBe(100);
+
+  const unsupportedRes = await fetch(`http://localhost:${testPort}/trpc/test`, {
+    method: 'POST',
+    headers: { 'content-type': 'text/xml' },
+    body: '<value />',
+  });
+  expect(unsupportedRes.status).toBe(415);
+});
+
+test('uploads wait for a slow file sink', async () => {
+  const app = uWs.App();
+  const received: number[] = [];
+  createUWebSocketsHandler(app, '/trpc', {
+    router: makeRouter(),
+    createContext: makeContext(),
+    experimental_contentTypeHandlers: [
+      multipartContentTypeHandler({
+        highWaterMark: 1024,
+        async onFile({ data }) {
+          const chunks: Uint8Array[] = [];
+          for await (const chunk of data) {
+            await sleep(1);
+            received.push(chunk.byteLength);
+            chunks.push(chunk);
+          }
+          return Buffer.concat(chunks);
+        },
+      }),
+    ],
+  });
+  await serve(app, async () => {
+    const boundary = 'trpcboundary';
+    const content = 'x'.repeat(256 * 1024);
+    const res = await fetch(`http://localhost:${testPort + 1}/trpc/upload`, {
+      method: 'POST',
+      headers: { 'content-type': `multipart/form-data; boundary=${boundary}` },
+      body: [
+        `--${boundary}`,
+        'Content-Disposition: form-data; name="doc"; filename="big.txt"',
+        '',
+        content,
+        `--${boundary}--`,
+        '',
+      ].join('\r\n'),
+    });
+    const { result }: any = await res.json();
+    expect(result.data.files[0].content).toBe(content);
+    expect(received.length).toBeGreaterThan(1);
+  });
+});
+
+test('uploads finish when the file sink stops reading early', async () => {
+  const app = uWs.App();
+  createUWebSocketsHandler(app, '/trpc', {
+    router: makeRouter(),
+    createContext: makeContext(),
+    experimental_contentTypeHandlers: [
+      multipartContentTypeHandler({
+        highWaterMark: 1024,
+        async onFile({ data }) {
+          // only looks at the start of the file
+          for await (const chunk of data) {
+            return Buffer.from(chunk.subarray(0, 4));
+          }
+          return Buffer.alloc(0);
+        },
+      }),
+    ],
+  });
+  await serve(app, async () => {
+    const boundary = 'trpcboundary';
+    const res = await fetch(`http://localhost:${testPort + 1}/trpc/upload`, {
+      method: 'POST',
+      headers: { 'content-type': `multipart/form-data; boundary=${boundary}` },
+      body: [
+        `--${boundary}`,
+        'Content-Disposition: form-data; name="doc"; filename="big.txt"',
+        '',
+        'head' + 'x'.repeat(256 * 1024),
+        `--${boundary}`,
+        'Content-Disposition: form-data; name="note"',
+        '',
+        'after the file',
+        `--${boundary}--`,
+        '',
+      ].join('\r\n'),
+    });
+    const { result }: any = await res.json();
+    expect(result.data.files[0].content).toBe('head');
+    expect(result.data.fields).toEqual({ note: 'after the file' });
+  });
+});
+
+test('client ip is resolved through trusted proxies', async () => {
+  const res = await fetch(`http://localhost:${testPort}/trpc/clientIp`, {
+    headers: { 'x-forwarded-for': '198.51.100.1, 203.0.113.7' },
+  });
+  const { result }: any = await res.json();
+
+  expect(['127.0.0.1', '::1']).toContain(result.data.remoteAddress);
+  expect(result.data.clientIp).toBe('203.0.113.7');
+});
+
 test('manually sets status and headers', async () => {
   const fetcher = await fetch(
     `http://localhost:${testPort}/trpc/manualRes?input=${encodeURI('{}')}`
@@ -343,6 +707,22 @@ test('manually sets status and headers', async () => {
   expect(fetcher.headers.get('manual')).toEqual('header'); //from the result
 });
 
+test('queues status, headers and cookies on the context', async () => {
+  const fetcher = await fetch(`http://localhost:${testPort}/trpc/deferredRes`, {
+    headers: { cookie: 'theme=dark; name=%E2%9C%93' },
+  });
+  const body: any = await fetcher.json();
+
+  expect(fetcher.status).toEqual(202);
+  expect(body.result.data).toEqual({ theme: 'dark', name: '✓' });
+  expect(fetcher.headers.get('manual')).toEqual('header');
+  expect(fetcher.headers.get('Access-Control-Allow-Origin')).toEqual('*');
+  expect(fetcher.headers.raw()['set-cookie']).toEqual([
+    'session=a%20b; Path=/; HttpOnly; SameSite=Lax',
+    'old=; Path=/; Expires=Thu, 01 Jan 1970 00:00:00 GMT',
+  ]);
+});
+
 // this needs to be tested
 test('aborting requests works', async () => {
   const ac = new AbortController();
@@ -440,6 +820,66 @@ test(
   }
 );
 
+test('topic subscriptions use uWs pub/sub', async () => {
+  const { client, closeWs } = makeClientWithWs({});
+
+  const onDataA = vi.fn();
+  const onDataB = vi.fn();
+  const subA = client.onTopic.subscribe('room', { onData: onDataA });
+  const subB = client.onTopic.subscribe('room', { onData: onDataB });
+  await sleep(300);
+
+  t.publish('room', { id: '1' });
+  t.publish('other', { id: '2' });
+  await sleep(100);
+  expect(onDataA.mock.calls).toEqual([[{ id: '1' }]]);
+  expect(onDataB.mock.calls).toEqual([[{ id: '1' }]]);
+
+  subA.unsubscribe();
+  await sleep(100);
+  t.publish('room', { id: '3' });
+  await sleep(100);
+  expect(onDataA).toHaveBeenCalledTimes(1);
+  expect(onDataB).toHaveBeenCalledTimes(2);
+
+  subB.unsubscribe();
+  await closeWs();
+});
+
+test('topics are published through the main handler', async () => {
+  const app = uWs.App();
+  const handler = createUWebSocketsHandler(app, '/trpc', {
+    router: makeRouter(),
+    createContext: makeContext(),
+    enableSubscriptions: true,
+  });
+  await serve(app, async () => {
+    const ws = new WebSocket(`ws://localhost:${testPort + 1}/trpc`);
+    const messages: any[] = [];
+    ws.on('message', (data) => messages.push(JSON.parse(data.toString())));
+    await new Promise((resolve) => ws.on('open', resolve));
+
+    ws.send(
+      JSON.stringify({
+        id: 1,
+        method: 'subscription',
+        params: { path: 'onTopic', input: 'room' },
+      })
+    );
+    await sleep(100);
+    handler.publish('room', { id: '1' });
+    handler.broadcastReconnectNotification();
+    await sleep(100);
+
+    expect(messages).toEqual([
+      { id: 1, result: { type: 'started' } },
+      { id: 1, result: { type: 'data', data: { id: '1' } } },
+      { id: null, method: 'reconnect' },
+    ]);
+    ws.close();
+  });
+});
+
 test(
   'subscription failed context',
   {
@@ -473,7 +913,71 @@ test(
   }
 );
 
-test('options still passthrough (cors)', async () => {
+test('upgrade is refused with http status', async () => {
+  const { status, body } = await new Promise<{ status: number; body: any }>(
+    (resolve) => {
+      const ws = new WebSocket(`ws://localhost:${testPort}/trpc?token=invalid`);
+      ws.on('unexpected-response', (_req, res) => {
+        let data = '';
+        res.on('data', (chunk) => (data += chunk));
+        res.on('end', () =>
+          resolve({ status: res.statusCode, body: JSON.parse(data) })
+        );
+      });
+    }
+  );
+
+  expect(status).toBe(401);
+  expect(body.error.message).toBe('invalid token');
+  expect(body.error.data.code).toBe('UNAUTHORIZED');
+});
+
+test('connection params are sent as the first message', async () => {
+  const ws = new WebSocket(
+    `ws://localhost:${testPort}/trpc?connectionParams=1`
+  );
+  const messages: any[] = [];
+  ws.on('message', (data) => messages.push(JSON.parse(data.toString())));
+  await new Promise((resolve) => ws.on('open', resolve));
+
+  ws.send(
+    JSON.stringify({ method: 'connectionParams', data: { user: 'params' } })
+  );
+  ws.send(
+    JSON.stringify({
+      id: 1,
+      method: 'query',
+      params: { path: 'hello', input: null },
+    })
+  );
+  await sleep(100);
+
+  expect(messages).toEqual([
+    { id: 1, result: { type: 'data', data: { text: 'hello params' } } },
+  ]);
+  ws.close();
+});
+
+test('connection params timeout closes the socket', async () => {
+  const app = uWs.App();
+  applyWSHandler(app, '/trpc', {
+    router: makeRouter(),
+    createContext: makeContext(),
+    connectionParamsTimeout: 50,
+  });
+  await serve(app, async () => {
+    const ws = new WebSocket(
+      `ws://localhost:${testPort + 1}/trpc?connectionParams=1`
+    );
+    const messages: any[] = [];
+    ws.on('message', (data) => messages.push(JSON.parse(data.toString())));
+    await new Promise((resolve) => ws.on('close', resolve));
+
+    expect(messages[0].error.data.code).toBe('UNAUTHORIZED');
+  });
+});
+
+test('options under the prefix are answered by the adapter', async () => {
   const res = await fetch(
     `http://localhost:${testPort}/trpc/hello?input=${encodeURI('{}')}`,
     {
@@ -481,8 +985,968 @@ test('options still passthrough (cors)', async () => {
     }
   );
 
-  expect(res.status).toBe(200);
-  expect(res.headers.get('Access-Control-Allow-Origin')).toBe('*');
+  expect(res.status).toBe(204);
+  expect(res.headers.get('Allow')).toBe('GET, HEAD, POST, OPTIONS');
+
+  // the app's own handler still gets everything outside the prefix
+  const outside = await fetch(`http://localhost:${testPort}/other`, {
+    method: 'OPTIONS',
+  });
+  expect(outside.headers.get('Access-Control-Allow-Origin')).toBe('*');
+});
+
+test('head and unsupported methods', async () => {
+  const url = `http://localhost:${testPort}/trpc/hello?input=${encodeURI(
+    '{}'
+  )}`;
+  const get = await fetch(url);
+  const getBody = await get.text();
+
+  const head = await fetch(url, { method: 'HEAD' });
+  expect(head.status).toBe(200);
+  expect(head.headers.get('content-type')).toBe('application/json');
+  expect(head.headers.get('content-length')).toBe(
+    Buffer.byteLength(getBody).toString()
+  );
+  expect(await head.text()).toBe('');
+
+  const put = await fetch(url, { method: 'PUT' });
+  const body: any = await put.json();
+  expect(put.status).toBe(405);
+  expect(put.headers.get('Allow')).toBe('GET, HEAD, POST, OPTIONS');
+  expect(body.error.data.code).toBe('METHOD_NOT_SUPPORTED');
+  expect(body.error.message).toBe('Unsupported method "PUT"');
+});
+
+test('cors option', async () => {
+  const app = uWs.App();
+  createUWebSocketsHandler(app, '/trpc', {
+    router: makeRouter(),
+    createContext: makeContext(),
+    enableSubscriptions: true,
+    cors: {
+      origin: /\.example\.com$/,
+      credentials: true,
+      exposedHeaders: ['x-custom'],
+      maxAge: 600,
+    },
+  });
+  await serve(app, async () => {
+    const url = `http://localhost:${testPort + 1}/trpc/hello`;
+
+    const preflight = await fetch(url, {
+      method: 'OPTIONS',
+      headers: {
+        origin: 'https://app.example.com',
+        'access-control-request-headers': 'content-type',
+      },
+    });
+    expect(preflight.status).toBe(204);
+    expect(preflight.headers.get('access-control-allow-origin')).toBe(
+      'https://app.example.com'
+    );
+    expect(preflight.headers.get('access-control-allow-headers')).toBe(
+      'content-type'
+    );
+    expect(preflight.headers.get('access-control-max-age')).toBe('600');
+
+    const rejected = await fetch(url, {
+      method: 'OPTIONS',
+      headers: { origin: 'https://evil.com' },
+    });
+    expect(rejected.status).toBe(403);
+
+    const res = await fetch(url, {
+      headers: { origin: 'https://app.example.com' },
+    });
+    expect(res.headers.get('access-control-allow-origin')).toBe(
+      'https://app.example.com'
+    );
+    expect(res.headers.get('access-control-allow-credentials')).toBe('true');
+    expect(res.headers.get('access-control-expose-headers')).toBe('x-custom');
+
+    const upgradeStatus = await new Promise<number>((resolve) => {
+      const ws = new WebSocket(`ws://localhost:${testPort + 1}/trpc`, {
+        origin: 'https://evil.com',
+      });
+      ws.on('unexpected-response', (_req, res) => resolve(res.statusCode));
+    });
+    expect(upgradeStatus).toBe(403);
+  });
+});
+
+test('middleware chain', async () => {
+  const onError = vi.fn();
+  const order: string[] = [];
+  const app = uWs.App();
+  createUWebSocketsHandler(app, '/trpc', {
+    router: makeRouter(),
+    createContext: makeContext(),
+    enableSubscriptions: true,
+    onError,
+    middleware: [
+      async (req, res, next) => {
+        order.push('first');
+        // the body arrives before anyone reads it
+        await sleep(20);
+        await next();
+        order.push('first done');
+      },
+      (req, res, next) => {
+        if (req.headers['x-teapot']) {
+          res.cork(() => {
+            res.writeStatus('418 I am a teapot');
+            res.end('short');
+          });
+          return;
+        }
+        next();
+      },
+      async (req, res, next) => {
+        if (req.headers['x-fail'] || req.query.get('fail') === 'upgrade') {
+          throw new TRPCError({ code: 'FORBIDDEN', message: 'no entry' });
+        }
+        await next();
+      },
+    ],
+  });
+  await serve(app, async () => {
+    const url = `http://localhost:${testPort + 1}/trpc/hello`;
+
+    const teapot = await fetch(url, { headers: { 'x-teapot': '1' } });
+    expect(teapot.status).toBe(418);
+    expect(await teapot.text()).toBe('short');
+    expect(order).toEqual(['first', 'first done']);
+
+    const failed = await fetch(url, { headers: { 'x-fail': '1' } });
+    const body: any = await failed.json();
+    expect(failed.status).toBe(403);
+    expect(body.error.message).toBe('no entry');
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(onError.mock.calls[0]![0].error.code).toBe('FORBIDDEN');
+
+    const passed = await fetch(url);
+    expect(passed.status).toBe(200);
+
+    const mutated = await fetch(
+      `http://localhost:${testPort + 1}/trpc/bigInput`,
+      {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ value: 'x'.repeat(200000) }),
+      }
+    );
+    expect(((await mutated.json()) as any).result.data).toBe(200000);
+
+    const upgradeStatus = await new Promise<number>((resolve) => {
+      const ws = new WebSocket(
+        `ws://localhost:${testPort + 1}/trpc?fail=upgrade`
+      );
+      ws.on('unexpected-response', (_req, res) => resolve(res.statusCode));
+    });
+    expect(upgradeStatus).toBe(403);
+  });
+});
+
+test('middleware that does not wait for next', async () => {
+  const onRequestEnd = vi.fn();
+  const app = uWs.App();
+  const handler = createUWebSocketsHandler(app, '/trpc', {
+    router: makeRouter(),
+    createContext: makeContext(),
+    onRequestEnd,
+    middleware: (req, res, next) => {
+      next();
+    },
+  });
+  await serve(app, async () => {
+    const slow = fetch(`http://localhost:${testPort + 1}/trpc/slow?input=100`);
+    await sleep(20);
+
+    let drained = false;
+    const closed = handler
+      .close({ timeoutMs: 1000 })
+      .then(() => (drained = true));
+    await sleep(20);
+    expect(drained).toBe(false);
+
+    expect(((await (await slow).json()) as any).result.data).toBe(100);
+    await closed;
+    expect(onRequestEnd).toHaveBeenCalledTimes(1);
+    expect(onRequestEnd.mock.calls[0]![0].status).toBe(200);
+  });
+});
+
+test('compresses responses from accept-encoding', async () => {
+  const cache = createCompressionCache();
+  const app = uWs.App();
+  createUWebSocketsHandler(app, '/trpc', {
+    router: makeRouter(),
+    createContext: makeContext(),
+    responseCompression: { threshold: 100, cache },
+  });
+  await serve(app, async () => {
+    const url = `http://localhost:${testPort + 1}/trpc`;
+
+    const big = await fetch(`${url}/big?input=10000`, {
+      headers: { 'accept-encoding': 'gzip;q=0.5, br' },
+    });
+    const body: any = await big.json();
+    expect(big.headers.get('content-encoding')).toBe('br');
+    expect(big.headers.get('vary')).toContain('Accept-Encoding');
+    expect(body.result.data).toBe('x'.repeat(10000));
+
+    const small = await fetch(`${url}/big?input=10`, {
+      headers: { 'accept-encoding': 'gzip' },
+    });
+    expect(small.headers.get('content-encoding')).toBeNull();
+
+    const plain = await fetch(`${url}/big?input=10000`, {
+      headers: { 'accept-encoding': 'identity' },
+    });
+    expect(plain.headers.get('content-encoding')).toBeNull();
+
+    const streamed = await fetch(
+      `${url}/big,big?batch=1&input=${encodeURI('{"0":5000,"1":6000}')}`,
+      { headers: { 'accept-encoding': 'gzip', 'trpc-batch-mode': 'stream' } }
+    );
+    const batch: any = await streamed.json();
+    expect(streamed.headers.get('content-encoding')).toBe('gzip');
+    expect(batch['1'].result.data).toBe('x'.repeat(6000));
+  });
+});
+
+test('requests time out and abort their signal', async () => {
+  onProcedureAborted.mockClear();
+
+  const res = await fetch(`http://localhost:${testPort}/trpc/untilAborted`);
+  const body: any = await res.json();
+  expect(res.status).toBe(408);
+  expect(body.error.data.code).toBe('TIMEOUT');
+  await sleep(10);
+  expect(onProcedureAborted.mock.calls[0]![0].code).toBe('TIMEOUT');
+
+  const app = uWs.App();
+  createUWebSocketsHandler(app, '/trpc', {
+    router: makeRouter(),
+    createContext: makeContext(),
+    timeoutMs: 50,
+  });
+  await serve(app, async () => {
+    const url = `http://localhost:${testPort + 1}/trpc`;
+
+    const batch = await fetch(
+      `${url}/slow,hello?batch=1&input=${encodeURI('{"0":500}')}`
+    );
+    const batchBody: any = await batch.json();
+    expect(batch.status).toBe(408);
+    expect(batchBody).toHaveLength(2);
+    expect(batchBody[0].error.data.path).toBe('slow');
+
+    const fast = await fetch(`${url}/slow?input=10`);
+    expect(fast.status).toBe(200);
+  });
+});
+
+test('websocket calls are aborted on stop', async () => {
+  onProcedureAborted.mockClear();
+  const { client, closeWs } = makeClientWithWs({});
+
+  const sub = client.onAbortable.subscribe(undefined, {});
+  await sleep(300);
+  expect(onProcedureAborted).not.toHaveBeenCalled();
+
+  sub.unsubscribe();
+  await sleep(100);
+  expect(onProcedureAborted).toHaveBeenCalledWith('stop');
+
+  await closeWs();
+});
+
+test('websocket calls share the context and get their own signal', async () => {
+  class ConnectionContext {
+    constructor(readonly signal: AbortSignal | undefined) {}
+  }
+  const trpc = initTRPC.context<ConnectionContext>().create();
+  const seen: { ctx: ConnectionContext; signal?: AbortSignal }[] = [];
+  const createContext = vi.fn(
+    ({ signal }: CreateContextOptions) => new ConnectionContext(signal)
+  );
+  const app = uWs.App();
+  applyWSHandler(app, '/trpc', {
+    router: trpc.router({
+      check: trpc.procedure.query(async ({ ctx }) => {
+        await sleep(1);
+        seen.push({ ctx, signal: getCallSignal() });
+        return ctx instanceof ConnectionContext;
+      }),
+    }),
+    createContext,
+  });
+  await serve(app, async () => {
+    const ws = new WebSocket(`ws://localhost:${testPort + 1}/trpc`);
+    const messages: any[] = [];
+    ws.on('message', (data) => messages.push(JSON.parse(data.toString())));
+    await new Promise((resolve) => ws.on('open', resolve));
+    const call = (id: number) =>
+      ws.send(
+        JSON.stringify({ id, method: 'query', params: { path: 'check' } })
+      );
+    call(1);
+    call(2);
+    await sleep(100);
+
+    expect(createContext).toHaveBeenCalledTimes(1);
+    expect(messages.map((m) => m.result.data)).toEqual([true, true]);
+    expect(seen[0]!.ctx).toBe(seen[1]!.ctx);
+    expect(seen[0]!.signal).toBeDefined();
+    expect(seen[0]!.signal).not.toBe(seen[1]!.signal);
+    expect(seen[0]!.signal).not.toBe(seen[0]!.ctx.signal);
+    expect(getCallSignal()).toBeUndefined();
+
+    ws.close();
+  });
+});
+
+test('graceful shutdown drains requests and sockets', async () => {
+  const app = uWs.App();
+  const handler = createUWebSocketsHandler(app, '/trpc', {
+    router: makeRouter(),
+    createContext: makeContext(),
+    enableSubscriptions: true,
+  });
+  await serve(app, async () => {
+    const url = `http://localhost:${testPort + 1}/trpc`;
+
+    const ws = new WebSocket(`ws://localhost:${testPort + 1}/trpc`);
+    const messages: any[] = [];
+    ws.on('message', (data) => messages.push(JSON.parse(data.toString())));
+    const wsClosed = new Promise<number>((resolve) => ws.on('close', resolve));
+    await new Promise((resolve) => ws.on('open', resolve));
+
+    const slow = fetch(`${url}/slow?input=200`);
+    await sleep(50);
+
+    const closed = handler.close({ timeoutMs: 500 });
+    await sleep(10);
+
+    const refused = await fetch(`${url}/hello`);
+    expect(refused.status).toBe(503);
+    ws.send(
+      JSON.stringify({ id: 1, method: 'query', params: { path: 'hello' } })
+    );
+    expect(((await (await slow).json()) as any).result.data).toBe(200);
+
+    await closed;
+    expect(messages[0]).toEqual({ id: null, method: 'reconnect' });
+    expect(messages[1].id).toBe(1);
+    expect(messages[1].error.message).toBe('Server is shutting down');
+    expect(messages[1].error.data.httpStatus).toBe(503);
+    expect(await wsClosed).toBe(1001);
+  });
+});
+
+test('websocket connection limits', async () => {
+  const app = uWs.App();
+  const onError = vi.fn();
+  applyWSHandler(app, '/trpc', {
+    router: makeRouter(),
+    createContext: makeContext(),
+    onError,
+    limits: {
+      maxSubscriptions: 1,
+      messageRate: { burst: 3, perSecond: 1 },
+    },
+  });
+  await serve(app, async () => {
+    const ws = new WebSocket(`ws://localhost:${testPort + 1}/trpc`);
+    const messages: any[] = [];
+    ws.on('message', (data) => messages.push(JSON.parse(data.toString())));
+    await new Promise((resolve) => ws.on('open', resolve));
+
+    const call = (id: number, method: string, path: string, input: unknown) =>
+      ws.send(JSON.stringify({ id, method, params: { path, input } }));
+    call(1, 'subscription', 'onMessage', 'a');
+    call(2, 'subscription', 'onMessage', 'b');
+    call(3, 'query', 'hello', null);
+    call(4, 'query', 'hello', null);
+    await sleep(100);
+
+    const byId = (id: number) => messages.filter((m) => m.id === id);
+    expect(byId(1)[0].result.type).toBe('started');
+    expect(byId(2)[0].error.data.code).toBe('TOO_MANY_REQUESTS');
+    expect(byId(3)[0].result.data).toEqual({ text: 'hello world' });
+    expect(byId(4)[0].error.message).toBe('Message rate limit exceeded');
+    expect(onError).toHaveBeenCalledTimes(2);
+
+    ws.close();
+  });
+});
+
+test('finished subscriptions free their limit slot', async () => {
+  const app = uWs.App();
+  applyWSHandler(app, '/trpc', {
+    router: makeRouter(),
+    createContext: makeContext(),
+    limits: { maxSubscriptions: 1 },
+  });
+  await serve(app, async () => {
+    const ws = new WebSocket(`ws://localhost:${testPort + 1}/trpc`);
+    const messages: any[] = [];
+    ws.on('message', (data) => messages.push(JSON.parse(data.toString())));
+    await new Promise((resolve) => ws.on('open', resolve));
+
+    const subscribe = (id: number) =>
+      ws.send(
+        JSON.stringify({
+          id,
+          method: 'subscription',
+          params: { path: 'finite', input: null },
+        })
+      );
+    subscribe(1);
+    await sleep(100);
+    subscribe(2);
+    await sleep(100);
+
+    expect(messages.filter((m) => m.id === 1).at(-1).result.type).toBe(
+      'stopped'
+    );
+    expect(messages.filter((m) => m.id === 2).map((m) => m.result)).toEqual([
+      { type: 'started' },
+      { type: 'data', data: 1 },
+      { type: 'stopped' },
+    ]);
+    ws.close();
+  });
+});
+
+test('batched subscriptions count toward the limit', async () => {
+  const app = uWs.App();
+  applyWSHandler(app, '/trpc', {
+    router: makeRouter(),
+    createContext: makeContext(),
+    limits: { maxSubscriptions: 2 },
+  });
+  await serve(app, async () => {
+    const ws = new WebSocket(`ws://localhost:${testPort + 1}/trpc`);
+    const messages: any[] = [];
+    ws.on('message', (data) => messages.push(JSON.parse(data.toString())));
+    await new Promise((resolve) => ws.on('open', resolve));
+
+    const subscription = (id: number, path: string) => ({
+      id,
+      method: 'subscription',
+      params: { path, input: String(id) },
+    });
+    ws.send(
+      JSON.stringify([
+        subscription(1, 'onMessage'),
+        subscription(2, 'made-up'),
+        subscription(3, 'onMessage'),
+        subscription(4, 'onMessage'),
+      ])
+    );
+    await sleep(100);
+
+    const byId = (id: number) => messages.find((m) => m.id === id);
+    // every slot is taken before the first call runs
+    expect(byId(1).result.type).toBe('started');
+    expect(byId(2).error.data.code).toBe('NOT_FOUND');
+    expect(byId(3).error.data.code).toBe('TOO_MANY_REQUESTS');
+    expect(byId(4).error.data.code).toBe('TOO_MANY_REQUESTS');
+
+    // the failed subscription gave its slot back
+    ws.send(JSON.stringify(subscription(5, 'onMessage')));
+    await sleep(50);
+    expect(byId(5).result.type).toBe('started');
+
+    ws.close();
+  });
+});
+
+test('lifecycle hooks', async () => {
+  const app = uWs.App();
+  const onRequestStart = vi.fn((info) => {
+    info.state.span = 'http';
+  });
+  const onRequestEnd = vi.fn();
+  createUWebSocketsHandler(app, '/trpc', {
+    router: makeRouter(),
+    createContext: makeContext(),
+    onRequestStart,
+    onRequestEnd,
+  });
+  const onConnect = vi.fn(({ connection }) => {
+    connection.state.span = 'ws';
+  });
+  const onDisconnect = vi.fn();
+  const onSubscriptionStart = vi.fn();
+  const onSubscriptionEnd = vi.fn();
+  const onCall = vi.fn();
+  applyWSHandler(app, '/trpc', {
+    router: makeRouter(),
+    createContext: makeContext(),
+    onConnect,
+    onDisconnect,
+    onSubscriptionStart,
+    onSubscriptionEnd,
+    onCall,
+  });
+  await serve(app, async () => {
+    const res = await fetch(
+      `http://localhost:${testPort + 1}/trpc/hello,hello?batch=1&input={}`
+    );
+    const body = await res.text();
+    await sleep(10);
+    expect(onRequestStart).toHaveBeenCalledTimes(1);
+    const end = onRequestEnd.mock.calls[0]![0];
+    expect(end).toMatchObject({
+      paths: ['hello', 'hello'],
+      isBatchCall: true,
+      status: 200,
+      bytes: Buffer.byteLength(body),
+      aborted: false,
+      state: { span: 'http' },
+    });
+    expect(end.durationMs).toBeGreaterThanOrEqual(0);
+
+    const ws = new WebSocket(`ws://localhost:${testPort + 1}/trpc`);
+    await new Promise((resolve) => ws.on('open', resolve));
+    const call = (id: number, method: string, path: string, input: unknown) =>
+      ws.send(JSON.stringify({ id, method, params: { path, input } }));
+    call(1, 'query', 'hello', null);
+    call(2, 'subscription', 'onMessage', 'a');
+    await sleep(50);
+    ws.send(JSON.stringify({ id: 2, method: 'subscription.stop' }));
+    call(3, 'subscription', 'onMessage', 'b');
+    await sleep(50);
+    ws.close(4000);
+    await sleep(50);
+
+    const connection = onConnect.mock.calls[0]![0].connection;
+    expect(connection.state.span).toBe('ws');
+    expect(onCall.mock.calls.map(([call]) => [call.id, call.type])).toEqual([
+      [1, 'query'],
+      [2, 'subscription'],
+      [3, 'subscription'],
+    ]);
+    expect(onCall.mock.calls[0]![0].connection).toBe(connection);
+    expect(onSubscriptionStart).toHaveBeenCalledTimes(2);
+    expect(
+      onSubscriptionEnd.mock.calls.map(([sub]) => [sub.id, sub.reason])
+    ).toEqual([
+      [2, 'stop'],
+      [3, 'close'],
+    ]);
+    expect(onDisconnect.mock.calls[0]![0]).toMatchObject({
+      connection,
+      code: 4000,
+    });
+  });
+});
+
+test('metrics route', async () => {
+  const app = uWs.App();
+  const { publish } = createUWebSocketsHandler(app, '/trpc', {
+    router: makeRouter(),
+    createContext: makeContext(),
+    enableSubscriptions: true,
+    metricsRoute: '/metrics',
+  });
+  await serve(app, async () => {
+    await fetch(`http://localhost:${testPort + 1}/trpc/hello`);
+    const ws = new WebSocket(`ws://localhost:${testPort + 1}/trpc`);
+    await new Promise((resolve) => ws.on('open', resolve));
+    ws.send(
+      JSON.stringify({
+        id: 1,
+        method: 'subscription',
+        params: { path: 'onMessage', input: 'a' },
+      })
+    );
+    await sleep(50);
+
+    const res = await fetch(`http://localhost:${testPort + 1}/metrics`);
+    const text = await res.text();
+    expect(res.headers.get('content-type')).toContain('text/plain');
+    expect(text).toContain(
+      'trpc_http_requests_total{path="hello",status="200"} 1'
+    );
+    expect(text).toContain(
+      'trpc_procedure_duration_seconds_count{transport="http",type="query",path="hello"} 1'
+    );
+    expect(text).toContain('trpc_ws_connections 1');
+    expect(text).toContain('trpc_ws_subscriptions{path="onMessage"} 1');
+    expect(text).toContain('trpc_ws_messages_received_total 1');
+    expect(text).toContain('trpc_ws_messages_sent_total 1');
+
+    await fetch(`http://localhost:${testPort + 1}/trpc/made-up`);
+    await fetch(`http://localhost:${testPort + 1}/trpc/made-up-too`);
+    const after = await (
+      await fetch(`http://localhost:${testPort + 1}/metrics`)
+    ).text();
+    expect(after).toContain(
+      'trpc_http_requests_total{path="unknown",status="404"} 2'
+    );
+    expect(after).not.toContain('made-up');
+
+    ws.send(
+      JSON.stringify({
+        id: 2,
+        method: 'subscription',
+        params: { path: 'onTopic', input: 'news' },
+      })
+    );
+    await sleep(50);
+    publish('news', { id: '1' });
+    await sleep(50);
+    const published = await (
+      await fetch(`http://localhost:${testPort + 1}/metrics`)
+    ).text();
+    // started messages for both subscriptions and the published event
+    expect(published).toContain('trpc_ws_messages_sent_total 3');
+
+    ws.close();
+  });
+});
+
+test('health and readiness routes', async () => {
+  const app = uWs.App();
+  let dbUp = true;
+  const handler = createUWebSocketsHandler(app, '/trpc', {
+    router: makeRouter(),
+    createContext: makeContext(),
+    enableSubscriptions: true,
+    health: {
+      checks: {
+        async db() {
+          if (!dbUp) throw new Error('db is down');
+        },
+      },
+    },
+  });
+  await serve(app, async () => {
+    const url = `http://localhost:${testPort + 1}`;
+
+    const ws = new WebSocket(`ws://localhost:${testPort + 1}/trpc`);
+    await new Promise((resolve) => ws.on('open', resolve));
+
+    const ready = await fetch(`${url}/readyz`);
+    expect(ready.status).toBe(200);
+    expect(await ready.json()).toEqual({
+      status: 'ready',
+      draining: false,
+      inFlightRequests: 0,
+      openConnections: 1,
+      checks: { db: 'ok' },
+    });
+
+    dbUp = false;
+    const failing = await fetch(`${url}/readyz`);
+    const failingBody: any = await failing.json();
+    expect(failing.status).toBe(503);
+    expect(failingBody.checks.db).toBe('db is down');
+
+    dbUp = true;
+    const closing = handler.close({ timeoutMs: 500 });
+    const draining = await fetch(`${url}/readyz`);
+    expect(draining.status).toBe(503);
+    expect(((await draining.json()) as any).draining).toBe(true);
+
+    const live = await fetch(`${url}/healthz`);
+    expect(live.status).toBe(200);
+
+    await closing;
+  });
+});
+
+test('websocket keep-alive ping and pong', async () => {
+  const app = uWs.App();
+  applyWSHandler(app, '/trpc', {
+    router: makeRouter(),
+    createContext: makeContext(),
+    keepAlive: { enabled: true, pingMs: 100, pongWaitMs: 100 },
+  });
+  await serve(app, async () => {
+    const ws = new WebSocket(`ws://localhost:${testPort + 1}/trpc`);
+    const messages: string[] = [];
+    ws.on('message', (data) => messages.push(data.toString()));
+    const closed = new Promise<number>((resolve) =>
+      ws.on('close', (code) => resolve(code))
+    );
+    await new Promise((resolve) => ws.on('open', resolve));
+
+    ws.send('PING');
+    await sleep(50);
+    expect(messages).toEqual(['PONG']);
+
+    // answering keeps the connection open
+    await sleep(100);
+    expect(messages).toEqual(['PONG', 'PING']);
+    ws.send('PONG');
+    await sleep(150);
+    expect(messages).toEqual(['PONG', 'PING', 'PING']);
+
+    expect(await closed).toBe(KEEP_ALIVE_CLOSE_CODE);
+  });
+});
+
+test('websocket codecs are negotiated by subprotocol', async () => {
+  const app = uWs.App();
+  const binaryJson: WSCodec = {
+    protocol: 'binary-json',
+    binary: true,
+    encode: (message) => Buffer.from(JSON.stringify(message)),
+    decode: (data) => JSON.parse(Buffer.from(data).toString()),
+  };
+  applyWSHandler(app, '/trpc', {
+    router: makeRouter(),
+    createContext: makeContext(),
+    codecs: [binaryJson],
+  });
+  await serve(app, async () => {
+    const ws = new WebSocket(`ws://localhost:${testPort + 1}/trpc`, [
+      'msgpack',
+      'binary-json',
+    ]);
+    const frames: { data: any; isBinary: boolean }[] = [];
+    ws.on('message', (data, isBinary) => frames.push({ data, isBinary }));
+    await new Promise((resolve) => ws.on('open', resolve));
+    expect(ws.protocol).toBe('binary-json');
+
+    ws.send(
+      Buffer.from(
+        JSON.stringify({
+          id: 1,
+          method: 'query',
+          params: { path: 'hello', input: null },
+        })
+      )
+    );
+    await sleep(50);
+    expect(frames[0]!.isBinary).toBe(true);
+    expect(JSON.parse(frames[0]!.data.toString()).result.data).toEqual({
+      text: 'hello world',
+    });
+    ws.close();
+
+    const json = new WebSocket(`ws://localhost:${testPort + 1}/trpc`, [
+      'cbor',
+      'json',
+    ]);
+    await new Promise((resolve) => json.on('open', resolve));
+    expect(json.protocol).toBe('json');
+    json.close();
+
+    // a protocol the client did not ask for must not be answered
+    const headers = await new Promise<Record<string, unknown>>((resolve) => {
+      request(`http://localhost:${testPort + 1}/trpc`, {
+        headers: {
+          connection: 'Upgrade',
+          upgrade: 'websocket',
+          'sec-websocket-version': '13',
+          'sec-websocket-key': 'dGhlIHNhbXBsZSBub25jZQ==',
+          'sec-websocket-protocol': 'msgpack, cbor',
+        },
+      })
+        .on('upgrade', (res, socket) => {
+          socket.destroy();
+          resolve(res.headers);
+        })
+        .end();
+    });
+    expect(headers['sec-websocket-protocol']).toBeUndefined();
+  });
+});
+
+test('resumable subscriptions replay missed events', async () => {
+  const app = uWs.App();
+  const { publish } = applyWSHandler(app, '/trpc', {
+    router: makeRouter(),
+    createContext: makeContext(),
+    resumable: true,
+  });
+  await serve(app, async () => {
+    // kept while nobody is subscribed
+    publish('feed', tracked('1', 'a'));
+    publish('feed', tracked('2', 'b'));
+    publish('feed', tracked('3', 'c'));
+
+    const ws = new WebSocket(`ws://localhost:${testPort + 1}/trpc`);
+    const messages: any[] = [];
+    ws.on('message', (data) => messages.push(JSON.parse(data.toString())));
+    await new Promise((resolve) => ws.on('open', resolve));
+
+    ws.send(
+      JSON.stringify({
+        id: 1,
+        method: 'subscription',
+        params: { path: 'onFeed', input: { lastEventId: '1' } },
+      })
+    );
+    await sleep(50);
+    publish('feed', tracked('4', 'd'));
+    await sleep(50);
+
+    expect(messages.map((m) => m.result.type)).toEqual([
+      'started',
+      'data',
+      'data',
+      'data',
+    ]);
+    expect(messages.slice(1).map((m) => m.result.data)).toEqual([
+      { id: '2', data: 'b' },
+      { id: '3', data: 'c' },
+      { id: '4', data: 'd' },
+    ]);
+
+    ws.close();
+  });
+});
+
+test('resumable subscriptions are scoped to the subscriber', async () => {
+  const app = uWs.App();
+  applyWSHandler(app, '/trpc', {
+    router: makeRouter(),
+    createContext: makeContext(),
+    resumable: { getKey: ({ ctx }) => ctx.user?.name ?? 'anonymous' },
+  });
+  await serve(app, async () => {
+    const subscribe = async (headers: Record<string, string>) => {
+      const ws = new WebSocket(`ws://localhost:${testPort + 1}/trpc`, {
+        headers,
+      });
+      const messages: any[] = [];
+      ws.on('message', (data) => messages.push(JSON.parse(data.toString())));
+      await new Promise((resolve) => ws.on('open', resolve));
+      ws.send(
+        JSON.stringify({
+          id: 1,
+          method: 'subscription',
+          params: { path: 'onInbox', input: { lastEventId: '0' } },
+        })
+      );
+      await sleep(50);
+      return { ws, messages };
+    };
+
+    const katt = await subscribe({ authorization: 'meow' });
+    ee.emit('inbox:KATT', tracked('1', 'secret'));
+    ee.emit('inbox:KATT', tracked('2', 'more secret'));
+    await sleep(50);
+
+    // same path and input, another user
+    const anonymous = await subscribe({});
+    expect(anonymous.messages.map((m) => m.result.type)).toEqual(['started']);
+
+    const kattAgain = await subscribe({ authorization: 'meow' });
+    expect(kattAgain.messages.slice(1).map((m) => m.result.data)).toEqual([
+      { id: '1', data: 'secret' },
+      { id: '2', data: 'more secret' },
+    ]);
+
+    katt.ws.close();
+    anonymous.ws.close();
+    kattAgain.ws.close();
+  });
+});
+
+test('subscriptions over server-sent events', async () => {
+  const app = uWs.App();
+  createUWebSocketsHandler(app, '/trpc', {
+    router: makeRouter(),
+    createContext: makeContext(),
+    sse: { heartbeatMs: 50 },
+  });
+  await serve(app, async () => {
+    const controller = new AbortController();
+    const res = await fetch(
+      `http://localhost:${testPort + 1}/trpc/onMessage?input=%22a%22`,
+      { signal: controller.signal as any }
+    );
+    expect(res.status).toBe(200);
+    expect(res.headers.get('content-type')).toBe('text/event-stream');
+
+    let text = '';
+    res.body!.on('data', (chunk: Buffer) => (text += chunk.toString()));
+    res.body!.on('error', () => undefined);
+
+    ee.emit('server:msg', { id: '1' });
+    await sleep(100);
+    expect(text).toContain('data: {"id":"1"}\n\n');
+    expect(text).toContain(': ping\n\n');
+
+    controller.abort();
+    await sleep(50);
+    expect(ee.listenerCount('server:msg')).toBe(0);
+  });
+});
+
+test('server-sent events close for clients that fall behind', async () => {
+  const app = uWs.App();
+  createUWebSocketsHandler(app, '/trpc', {
+    router: makeRouter(),
+    createContext: makeContext(),
+    sse: { maxQueuedBytes: 256 * 1024 },
+  });
+  await serve(app, async () => {
+    const ended = new Promise((resolve) => ee.once('flood:end', resolve));
+    const socket = connect(testPort + 1, 'localhost');
+    await new Promise((resolve) => socket.on('connect', resolve));
+    const closed = new Promise((resolve) => socket.on('close', resolve));
+    socket.write('GET /trpc/flood HTTP/1.1\r\nHost: localhost\r\n\r\n');
+    // never reads, the kernel buffers fill up and the events queue
+    socket.pause();
+
+    await ended;
+    socket.resume();
+    await closed;
+  });
+});
+
+test('batch size limits', async () => {
+  const app = uWs.App();
+  createUWebSocketsHandler(app, '/trpc', {
+    router: makeRouter(),
+    createContext: makeContext(),
+    enableSubscriptions: true,
+    maxBatchSize: 2,
+  });
+  await serve(app, async () => {
+    const url = `http://localhost:${testPort + 1}/trpc`;
+
+    const allowed = await fetch(`${url}/hello,hello?batch=1&input={}`);
+    expect(allowed.status).toBe(200);
+
+    const rejected = await fetch(`${url}/hello,hello,hello?batch=1&input={}`);
+    const body: any = await rejected.json();
+    expect(rejected.status).toBe(400);
+    expect(body.error.message).toBe('Batch of 3 calls exceeds the limit of 2');
+
+    const ws = new WebSocket(`ws://localhost:${testPort + 1}/trpc`);
+    const messages: any[] = [];
+    ws.on('message', (data) => messages.push(JSON.parse(data.toString())));
+    await new Promise((resolve) => ws.on('open', resolve));
+
+    ws.send(
+      JSON.stringify(
+        [1, 2, 3].map((id) => ({
+          id,
+          method: 'query',
+          params: { path: 'hello', input: null },
+        }))
+      )
+    );
+    await sleep(50);
+    expect(messages.map((m) => [m.id, m.error.data.code])).toEqual([
+      [1, 'BAD_REQUEST'],
+      [2, 'BAD_REQUEST'],
+      [3, 'BAD_REQUEST'],
+    ]);
+
+    ws.close();
+  });
 });
 
 test('large request body handling', async () => {
@@ -498,3 +1962,101 @@ test('large request body handling', async () => {
     expect(error.data.code).toBe('PAYLOAD_TOO_LARGE');
   }
 });
+
+test('compressed request bodies', async () => {
+  const url = `http://localhost:${testPort}/trpc/test`;
+
+  const res = await fetch(url, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json', 'content-encoding': 'gzip' },
+    body: gzipSync(JSON.stringify({ value: 'zipped' })),
+  });
+  const body: any = await res.json();
+  expect(body.result.data.originalValue).toBe('zipped');
+
+  const unsupported = await fetch(url, {
+    method: 'POST',
+    headers: { 'content-encoding': 'compress' },
+    body: 'whatever',
+  });
+  const unsupportedBody: any = await unsupported.json();
+  expect(unsupported.status).toBe(415);
+  expect(unsupportedBody.error.data.httpStatus).toBe(415);
+
+  // the size is checked before the type
+  const tooLarge = await fetch(url, {
+    method: 'POST',
+    headers: { 'content-type': 'text/xml' },
+    body: 'x'.repeat(20000),
+  });
+  expect(tooLarge.status).toBe(413);
+
+  // well under the limit on the wire, far over it decompressed
+  const bomb = await fetch(url, {
+    method: 'POST',
+    headers: { 'content-encoding': 'gzip' },
+    body: gzipSync(JSON.stringify({ value: '0'.repeat(1000000) })),
+  });
+  const bombBody: any = await bomb.json();
+  expect(bomb.status).toBe(413);
+  expect(bombBody.error.data.code).toBe('PAYLOAD_TOO_LARGE');
+});
+
+test('body size limits', async () => {
+  const url = `http://localhost:${testPort}/trpc`;
+
+  // rejected from the Content-Length alone
+  const declared = await fetch(`${url}/test`, {
+    method: 'POST',
+    body: JSON.stringify({ value: '0'.repeat(20000) }),
+  });
+  expect(declared.status).toBe(413);
+
+  const exact = JSON.stringify({ value: '0'.repeat(9987) });
+  expect(exact.length).toBe(10000);
+  const atLimit = await fetch(`${url}/test`, { method: 'POST', body: exact });
+  expect(atLimit.status).toBe(200);
+
+  const raised = await fetch(`${url}/bigInput`, {
+    method: 'POST',
+    body: JSON.stringify({ value: '0'.repeat(200000) }),
+  });
+  const body: any = await raised.json();
+  expect(body.result.data).toBe(200000);
+});
+
+test('bodies claiming a huge length or failing to parse', async () => {
+  const app = uWs.App();
+  createUWebSocketsHandler(app, '/trpc', {
+    router: makeRouter(),
+    createContext: makeContext(),
+    experimental_contentTypeHandlers: [
+      {
+        isMatch: ({ req }) => req.headers['content-type'] === 'text/broken',
+        getBody: () => {
+          throw new Error('parser failed');
+        },
+      },
+    ],
+  });
+  await serve(app, async () => {
+    // nothing is allocated up front for a length without a limit
+    const socket = connect(testPort + 1, 'localhost');
+    await new Promise((resolve) => socket.on('connect', resolve));
+    socket.write(
+      'POST /trpc/test HTTP/1.1\r\nHost: localhost\r\n' +
+        'Content-Type: application/json\r\nContent-Length: 5000000000\r\n\r\n{}'
+    );
+    await sleep(50);
+    socket.destroy();
+
+    const broken = await fetch(`http://localhost:${testPort + 1}/trpc/test`, {
+      method: 'POST',
+      headers: { 'content-type': 'text/broken' },
+      body: '{}',
+    });
+    const body: any = await broken.json();
+    expect(broken.status).toBe(500);
+    expect(body.error.message).toBe('parser failed');
+  });
+});